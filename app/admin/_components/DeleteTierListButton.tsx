@@ -45,7 +45,7 @@ export default function DeleteTierListButton({ id, name }: DeleteTierListButtonP
               <h2 className="text-lg font-semibold text-white">Delete tier list</h2>
               <p className="text-sm text-gray-400">
                 Are you sure you want to delete <span className="font-medium text-gray-200">{name}</span>?
-                This action cannot be undone.
+                It moves to the trash and can be restored until it is purged.
               </p>
             </div>
             {error && (
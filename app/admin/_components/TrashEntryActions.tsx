@@ -0,0 +1,94 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { purgeReview, purgeTierList, restoreReview, restoreTierList } from '../actions';
+
+type TrashEntryActionsProps = {
+  kind: 'review' | 'tier-list';
+  id: string;
+  name: string;
+};
+
+export default function TrashEntryActions({ kind, id, name }: TrashEntryActionsProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const [isDialogOpen, setDialogOpen] = useState(false);
+  const label = kind === 'review' ? 'review' : 'tier list';
+
+  const run = (action: (id: string) => Promise<void>, fallbackMessage: string) => {
+    setError(null);
+    startTransition(async () => {
+      try {
+        await action(id);
+        setDialogOpen(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : fallbackMessage);
+      }
+    });
+  };
+
+  const handleRestore = () =>
+    run(kind === 'review' ? restoreReview : restoreTierList, `Failed to restore ${label}.`);
+
+  const confirmPurge = () =>
+    run(kind === 'review' ? purgeReview : purgeTierList, `Failed to delete ${label}.`);
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={handleRestore}
+          disabled={isPending}
+          className="inline-flex items-center rounded border border-gray-700 px-2 py-1 text-xs font-medium text-gray-200 transition-colors hover:border-green-400 hover:text-green-200 disabled:opacity-75"
+        >
+          Restore
+        </button>
+        <button
+          type="button"
+          onClick={() => setDialogOpen(true)}
+          disabled={isPending}
+          className="inline-flex items-center rounded border border-red-500 px-2 py-1 text-xs font-semibold text-red-200 transition-colors hover:border-red-400 hover:text-red-100 disabled:opacity-75"
+        >
+          Delete forever
+        </button>
+      </div>
+      {error && !isDialogOpen && <p className="mt-1 text-xs text-red-300">{error}</p>}
+      {isDialogOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4">
+          <div className="w-full max-w-sm space-y-4 rounded-lg border border-gray-700 bg-gray-900 p-6 shadow-xl">
+            <div className="space-y-2">
+              <h2 className="text-lg font-semibold text-white">Delete {label} permanently</h2>
+              <p className="text-sm text-gray-400">
+                Permanently delete <span className="font-medium text-gray-200">{name}</span> and its image?
+                This action cannot be undone.
+              </p>
+            </div>
+            {error && (
+              <div className="rounded border border-red-500 bg-red-500/10 px-3 py-2 text-xs text-red-200">
+                {error}
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setDialogOpen(false)}
+                className="inline-flex items-center rounded border border-gray-700 px-3 py-2 text-xs font-medium text-gray-300 transition-colors hover:border-gray-500 hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={confirmPurge}
+                disabled={isPending}
+                className="inline-flex items-center rounded bg-red-500 px-3 py-2 text-xs font-semibold text-white transition-colors hover:bg-red-600 disabled:opacity-75"
+              >
+                {isPending ? 'Deleting…' : 'Delete forever'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,8 +1,8 @@
 "use server";
 
 import { revalidatePath } from 'next/cache';
-import { deleteReviewById } from '@/lib/reviews';
-import { deleteTierListById } from '@/lib/tierLists';
+import { deleteReviewById, purgeReviewById, restoreReviewById } from '@/lib/reviews';
+import { deleteTierListById, purgeTierListById, restoreTierListById } from '@/lib/tierLists';
 
 export async function deleteReview(id: string) {
   if (!id) {
@@ -27,3 +27,49 @@ export async function deleteTierList(id: string) {
   revalidatePath('/admin');
   revalidatePath('/tier-lists');
 }
+
+export async function restoreReview(id: string) {
+  if (!id) {
+    throw new Error('Missing review id.');
+  }
+  const restored = await restoreReviewById(id);
+  if (!restored) {
+    throw new Error('Review is not in the trash.');
+  }
+  revalidatePath('/admin');
+  revalidatePath('/reviews');
+}
+
+export async function purgeReview(id: string) {
+  if (!id) {
+    throw new Error('Missing review id.');
+  }
+  const purged = await purgeReviewById(id);
+  if (!purged) {
+    throw new Error('Review is not in the trash.');
+  }
+  revalidatePath('/admin');
+}
+
+export async function restoreTierList(id: string) {
+  if (!id) {
+    throw new Error('Missing tier list id.');
+  }
+  const restored = await restoreTierListById(id);
+  if (!restored) {
+    throw new Error('Tier list is not in the trash.');
+  }
+  revalidatePath('/admin');
+  revalidatePath('/tier-lists');
+}
+
+export async function purgeTierList(id: string) {
+  if (!id) {
+    throw new Error('Missing tier list id.');
+  }
+  const purged = await purgeTierListById(id);
+  if (!purged) {
+    throw new Error('Tier list is not in the trash.');
+  }
+  revalidatePath('/admin');
+}
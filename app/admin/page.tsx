@@ -1,10 +1,14 @@
 import type { Metadata } from 'next';
 import Image from 'next/image';
 import Link from 'next/link';
-import { readReviews } from '@/lib/reviews';
-import { readTierLists } from '@/lib/tierLists';
+import { listReviewSummaries } from '@/lib/reviews';
+import { listTierListSummaries } from '@/lib/tierLists';
+import { decodeCursor } from '@/lib/pagination';
+import ListPager from '@/components/ListPager';
 import DeleteReviewButton from './_components/DeleteReviewButton';
 import DeleteTierListButton from './_components/DeleteTierListButton';
+import TrashEntryActions from './_components/TrashEntryActions';
+import { listTrash, sweepExpiredTrash, TRASH_RETENTION_DAYS } from '@/lib/trash';
 
 const ADMIN_USERNAME = process.env.NEXT_PUBLIC_ADMIN_USERNAME ?? 'playlist-admin';
 const ADMIN_PASSWORD = process.env.NEXT_PUBLIC_ADMIN_PASSWORD ?? 'changeme-now';
@@ -18,6 +22,8 @@ const getParamValue = (value: string | string[] | undefined) =>
 
 export const dynamic = 'force-dynamic';
 
+const ADMIN_PAGE_SIZE = 50;
+
 const title = 'Playlist Review Admin Dashboard';
 const description =
   'Secure dashboard for managing Spotify playlist reviews saved on myrating.space. View entries, audit album details, and remove outdated content.';
@@ -66,14 +72,30 @@ export default async function AdminPage({ searchParams }: AdminPageProps) {
     );
   }
 
-  const reviews = await readReviews();
-  const tierLists = await readTierLists();
-  const sortedReviews = [...reviews].sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
-  const sortedTierLists = [...tierLists].sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
+  const reviewsCursor = getParamValue(searchParams?.cursor);
+  const tiersCursor = getParamValue(searchParams?.tiersCursor);
+  await sweepExpiredTrash();
+  const [reviewPage, tierListPage, trash] = await Promise.all([
+    listReviewSummaries({ limit: ADMIN_PAGE_SIZE, cursor: decodeCursor(reviewsCursor) }),
+    listTierListSummaries({ limit: ADMIN_PAGE_SIZE, cursor: decodeCursor(tiersCursor) }),
+    listTrash(ADMIN_PAGE_SIZE),
+  ]);
+  const sortedReviews = reviewPage.items;
+  const sortedTierLists = tierListPage.items;
+  const trashEntries = [
+    ...trash.reviews.map((entry) => ({ ...entry, kind: 'review' as const })),
+    ...trash.tierLists.map((entry) => ({ ...entry, kind: 'tier-list' as const })),
+  ].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  const purgeDate = (deletedAt: string) =>
+    new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  // Credentials travel in the query string, so every paging link has to carry them along
+  const buildPageHref = (params: { cursor?: string | null; tiersCursor?: string | null }) => {
+    const search = new URLSearchParams({ user: userParam, pass: passParam });
+    if (params.cursor) search.set('cursor', params.cursor);
+    if (params.tiersCursor) search.set('tiersCursor', params.tiersCursor);
+    return `/admin?${search.toString()}`;
+  };
 
   return (
     <div className="mx-auto min-h-screen max-w-6xl bg-gray-900 px-4 py-10 text-gray-100 sm:px-6 lg:px-10">
@@ -81,7 +103,8 @@ export default async function AdminPage({ searchParams }: AdminPageProps) {
         <div>
           <h1 className="text-3xl font-bold text-white">Admin Panel</h1>
           <p className="text-sm text-gray-400">
-            Manage reviews and tier lists. View details or delete entries permanently.
+            Manage reviews and tier lists. Deleted entries stay in the trash for {TRASH_RETENTION_DAYS} days before
+            they are removed permanently.
           </p>
         </div>
       </header>
@@ -89,7 +112,9 @@ export default async function AdminPage({ searchParams }: AdminPageProps) {
       <div className="space-y-8">
         {/* Reviews Section */}
         <section>
-          <h2 className="mb-4 text-xl font-semibold text-white">Reviews ({sortedReviews.length})</h2>
+          <h2 className="mb-4 text-xl font-semibold text-white">
+            Reviews ({sortedReviews.length}{reviewPage.nextCursor ? '+' : ''})
+          </h2>
           <div className="overflow-hidden rounded-lg border border-gray-800 bg-gray-900/60">
             <div className="grid grid-cols-[1.5rem_1.5fr_1fr_1fr_auto] gap-4 border-b border-gray-800 px-4 py-3 text-xs font-semibold uppercase tracking-wide text-gray-400 sm:grid-cols-[2.5rem_2fr_1fr_1fr_auto]">
               <span>#</span>
@@ -146,11 +171,18 @@ export default async function AdminPage({ searchParams }: AdminPageProps) {
               )}
             </div>
           </div>
+          <ListPager
+            className="mt-4"
+            newestHref={reviewsCursor ? buildPageHref({ tiersCursor }) : null}
+            olderHref={reviewPage.nextCursor ? buildPageHref({ cursor: reviewPage.nextCursor, tiersCursor }) : null}
+          />
         </section>
 
         {/* Tier Lists Section */}
         <section>
-          <h2 className="mb-4 text-xl font-semibold text-white">Tier Lists ({sortedTierLists.length})</h2>
+          <h2 className="mb-4 text-xl font-semibold text-white">
+            Tier Lists ({sortedTierLists.length}{tierListPage.nextCursor ? '+' : ''})
+          </h2>
           <div className="overflow-hidden rounded-lg border border-gray-800 bg-gray-900/60">
             <div className="grid grid-cols-[1.5rem_1.5fr_1fr_1fr_auto] gap-4 border-b border-gray-800 px-4 py-3 text-xs font-semibold uppercase tracking-wide text-gray-400 sm:grid-cols-[2.5rem_2fr_1fr_1fr_auto]">
               <span>#</span>
@@ -207,6 +239,50 @@ export default async function AdminPage({ searchParams }: AdminPageProps) {
               )}
             </div>
           </div>
+          <ListPager
+            className="mt-4"
+            newestHref={tiersCursor ? buildPageHref({ cursor: reviewsCursor }) : null}
+            olderHref={
+              tierListPage.nextCursor ? buildPageHref({ cursor: reviewsCursor, tiersCursor: tierListPage.nextCursor }) : null
+            }
+          />
+        </section>
+
+        {/* Trash Section */}
+        <section>
+          <h2 className="mb-4 text-xl font-semibold text-white">
+            Trash ({trashEntries.length})
+          </h2>
+          <div className="overflow-hidden rounded-lg border border-gray-800 bg-gray-900/60">
+            <div className="grid grid-cols-[1.5fr_1fr_1fr_auto] gap-4 border-b border-gray-800 px-4 py-3 text-xs font-semibold uppercase tracking-wide text-gray-400 sm:grid-cols-[2fr_1fr_1fr_auto]">
+              <span>Entry</span>
+              <span>Deleted</span>
+              <span>Purged after</span>
+              <span>Actions</span>
+            </div>
+            <div className="divide-y divide-gray-800">
+              {trashEntries.length === 0 ? (
+                <div className="px-4 py-6 text-sm text-gray-400">The trash is empty.</div>
+              ) : (
+                trashEntries.map((entry) => (
+                  <div
+                    key={`${entry.kind}:${entry.id}`}
+                    className="grid grid-cols-[1.5fr_1fr_1fr_auto] items-center gap-4 px-4 py-4 text-sm sm:grid-cols-[2fr_1fr_1fr_auto]"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate font-semibold text-white">{entry.playlistName}</p>
+                      <p className="truncate text-xs text-gray-400">
+                        {entry.kind === 'review' ? 'Review' : 'Tier list'} · {entry.playlistOwner || 'Unknown owner'}
+                      </p>
+                    </div>
+                    <span className="text-xs text-gray-400">{formatDate(entry.deletedAt)}</span>
+                    <span className="text-xs text-gray-400">{formatDate(purgeDate(entry.deletedAt))}</span>
+                    <TrashEntryActions kind={entry.kind} id={entry.id} name={entry.playlistName} />
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
         </section>
       </div>
     </div>
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { consumePkceState, saveSpotifySession } from '@/lib/spotifySession';
+import {
+  exchangeAuthorizationCode,
+  getCurrentUserProfile,
+  getRedirectUri,
+  resolveReturnTo,
+} from '@/utils/spotifyAuth';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const { origin, searchParams } = new URL(request.url);
+  const pkce = consumePkceState();
+  // Checked again here in case the stored state predates the login route's check
+  const returnTo = resolveReturnTo(pkce?.returnTo, origin);
+
+  const code = searchParams.get('code');
+  if (!pkce || !code || searchParams.get('state') !== pkce.state) {
+    // Covers a denied consent screen (?error=access_denied) as well as stale or forged callbacks
+    returnTo.searchParams.set('spotifyLogin', 'failed');
+    return NextResponse.redirect(returnTo);
+  }
+
+  try {
+    const tokens = await exchangeAuthorizationCode({
+      code,
+      verifier: pkce.verifier,
+      redirectUri: getRedirectUri(origin),
+    });
+    const user = await getCurrentUserProfile(tokens.accessToken);
+    saveSpotifySession({ ...tokens, user });
+    return NextResponse.redirect(returnTo);
+  } catch (error) {
+    console.error('Spotify login failed', error);
+    returnTo.searchParams.set('spotifyLogin', 'failed');
+    return NextResponse.redirect(returnTo);
+  }
+}
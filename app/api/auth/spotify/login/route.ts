@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { isSpotifyLoginConfigured, savePkceState } from '@/lib/spotifySession';
+import { buildAuthorizeUrl, createPkceChallenge, getRedirectUri, resolveReturnTo } from '@/utils/spotifyAuth';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  if (!isSpotifyLoginConfigured()) {
+    return NextResponse.json({ error: 'Spotify login is not configured.' }, { status: 500 });
+  }
+
+  const { origin, searchParams } = new URL(request.url);
+  const { verifier, challenge, state } = createPkceChallenge();
+  const returnTo = resolveReturnTo(searchParams.get('returnTo'), origin);
+  savePkceState({ verifier, state, returnTo: `${returnTo.pathname}${returnTo.search}${returnTo.hash}` });
+
+  return NextResponse.redirect(
+    buildAuthorizeUrl({ challenge, state, redirectUri: getRedirectUri(origin) })
+  );
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { clearSpotifySession } from '@/lib/spotifySession';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST() {
+  clearSpotifySession();
+  return new NextResponse(null, { status: 204 });
+}
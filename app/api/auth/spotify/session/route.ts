@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { isSpotifyLoginConfigured, readSpotifySession } from '@/lib/spotifySession';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = readSpotifySession();
+  return NextResponse.json({
+    enabled: isSpotifyLoginConfigured(),
+    user: session?.user ?? null,
+  });
+}
@@ -1,5 +1,9 @@
 import { NextResponse } from 'next/server';
-import { getReviewById } from '@/lib/reviews';
+import { deleteReviewById, getReviewById, getReviewEditAccess, updateReview } from '@/lib/reviews';
+import { parseReviewInput, parseReviewUpdate } from '@/lib/reviewPayload';
+import { editAccessError, readEditToken } from '@/lib/editTokens';
+import { sweepExpiredTrash } from '@/lib/trash';
+import type { ReviewUpdate } from '@/types/review';
 
 type ReviewParams = {
   params: {
@@ -18,3 +22,64 @@ export async function GET(_request: Request, { params }: ReviewParams) {
 
   return NextResponse.json(review);
 }
+
+async function applyUpdate(request: Request, id: string, update: ReviewUpdate | null) {
+  if (!update) {
+    return NextResponse.json({ message: 'Invalid review payload.' }, { status: 400 });
+  }
+
+  try {
+    const accessError = editAccessError(await getReviewEditAccess(id, readEditToken(request)), 'Review');
+    if (accessError) {
+      return accessError;
+    }
+
+    const review = await updateReview(id, update);
+    if (!review) {
+      return NextResponse.json({ message: 'Review not found.' }, { status: 404 });
+    }
+    return NextResponse.json(review);
+  } catch (error) {
+    console.error('Failed to update review', error);
+    return NextResponse.json({ message: 'Failed to update review.' }, { status: 500 });
+  }
+}
+
+/** Replace the review's content. The source playlist cannot change, so `playlistId` is ignored. */
+export async function PUT(request: Request, { params }: ReviewParams) {
+  const input = parseReviewInput(await request.json().catch(() => null));
+  if (!input) {
+    return applyUpdate(request, params.id, null);
+  }
+  // Required so a field added to reviews later cannot be silently left out of a full replacement
+  const update: Required<ReviewUpdate> = {
+    playlistName: input.playlistName,
+    playlistOwner: input.playlistOwner,
+    playlistImage: input.playlistImage,
+    albums: input.albums,
+    imageDataUrl: input.imageDataUrl,
+    reviewMode: input.reviewMode,
+    filters: input.filters,
+  };
+  return applyUpdate(request, params.id, update);
+}
+
+export async function PATCH(request: Request, { params }: ReviewParams) {
+  return applyUpdate(request, params.id, parseReviewUpdate(await request.json().catch(() => null)));
+}
+
+export async function DELETE(request: Request, { params }: ReviewParams) {
+  try {
+    const accessError = editAccessError(await getReviewEditAccess(params.id, readEditToken(request)), 'Review');
+    if (accessError) {
+      return accessError;
+    }
+
+    await deleteReviewById(params.id);
+    await sweepExpiredTrash();
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete review', error);
+    return NextResponse.json({ message: 'Failed to delete review.' }, { status: 500 });
+  }
+}
@@ -1,71 +1,37 @@
 import { NextResponse } from 'next/server';
-import { addReview, readReviews } from '@/lib/reviews';
-import type { StoredAlbum, ReviewMode } from '@/types/review';
+import { addReview, listReviewSummaries } from '@/lib/reviews';
+import { parseReviewInput } from '@/lib/reviewPayload';
+import { parseReviewListQuery } from '@/lib/pagination';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
-  const reviews = await readReviews();
-  return NextResponse.json(reviews);
+/**
+ * Query parameters: `limit` (max 100), `cursor` (from the previous page's `nextCursor`),
+ * `playlistId`, `owner`, `mode`, and `from`/`to` dates.
+ */
+export async function GET(request: Request) {
+  const query = parseReviewListQuery(new URL(request.url).searchParams);
+  if (!query) {
+    return NextResponse.json({ message: 'Invalid list parameters.' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await listReviewSummaries(query));
+  } catch (error) {
+    console.error('Failed to list reviews', error);
+    return NextResponse.json({ message: 'Failed to list reviews.' }, { status: 500 });
+  }
 }
 
 export async function POST(request: Request) {
   try {
-    const payload = await request.json();
-    const { playlistId, playlistName, playlistOwner, imageDataUrl, playlistImage, reviewMode } =
-      payload ?? {};
-    const albumsInput: unknown[] = Array.isArray(payload?.albums) ? payload.albums : [];
-    const normalizeLabel = (value: unknown) =>
-      typeof value === 'string' && value.trim().length > 0 ? value.trim() : null;
+    const input = parseReviewInput(await request.json());
 
-    if (
-      typeof playlistId !== 'string' ||
-      typeof playlistName !== 'string' ||
-      typeof playlistOwner !== 'string'
-    ) {
+    if (!input) {
       return NextResponse.json({ message: 'Invalid review payload.' }, { status: 400 });
     }
 
-    const albums: StoredAlbum[] = albumsInput
-      .map((albumEntry: unknown) => {
-        if (typeof albumEntry !== 'object' || albumEntry === null) {
-          return null;
-        }
-        const album = albumEntry as Record<string, unknown>;
-        const id = typeof album.id === 'string' ? album.id : null;
-        const name = typeof album.name === 'string' ? album.name : null;
-        if (!id || !name) {
-          return null;
-        }
-        return {
-          id,
-          name,
-          artist: typeof album.artist === 'string' ? (album.artist as string) : '',
-          image: typeof album.image === 'string' ? (album.image as string) : null,
-          releaseDate: typeof album.releaseDate === 'string' ? (album.releaseDate as string) : '',
-          label: normalizeLabel(album.label),
-          notes: typeof album.notes === 'string' ? (album.notes as string) : '',
-          rating: typeof album.rating === 'number' ? (album.rating as number) : null,
-          spotifyUrl: typeof album.spotifyUrl === 'string' ? (album.spotifyUrl as string) : null,
-        } satisfies StoredAlbum;
-      })
-      .filter((album): album is StoredAlbum => Boolean(album));
-
-    const allowedModes: ReviewMode[] = ['review', 'plain', 'rating', 'both'];
-    const normalizedReviewMode =
-      typeof reviewMode === 'string' && allowedModes.includes(reviewMode as ReviewMode)
-        ? (reviewMode as ReviewMode)
-        : 'review';
-
-    const review = await addReview({
-      playlistId,
-      playlistName,
-      playlistOwner,
-      playlistImage: typeof playlistImage === 'string' ? playlistImage : null,
-      albums,
-      imageDataUrl: typeof imageDataUrl === 'string' ? imageDataUrl : null,
-      reviewMode: normalizedReviewMode,
-    });
+    const review = await addReview(input);
 
     return NextResponse.json(review, { status: 201 });
   } catch (error) {
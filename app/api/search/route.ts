@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { search } from '@/lib/search';
+import { parseSearchQuery } from '@/lib/searchQuery';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Query parameters: `q` (2–100 characters, words match as prefixes), `type` (comma-separated
+ * `review`, `tier-list` and `album`; all by default) and `limit` (max 50).
+ */
+export async function GET(request: Request) {
+  const query = parseSearchQuery(new URL(request.url).searchParams);
+  if (!query) {
+    return NextResponse.json({ message: 'Invalid search parameters.' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ query: query.text, results: await search(query) });
+  } catch (error) {
+    console.error('Failed to search', error);
+    return NextResponse.json({ message: 'Failed to search.' }, { status: 500 });
+  }
+}
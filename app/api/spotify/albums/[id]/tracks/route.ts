@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getAlbumTracks } from '@/utils/spotifyApi';
+import { isSpotifyId } from '@/utils/spotify';
+
+type AlbumTracksParams = {
+  params: {
+    id: string;
+  };
+};
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request, { params }: AlbumTracksParams) {
+  if (!isSpotifyId(params.id)) {
+    return NextResponse.json({ error: 'Invalid album ID.' }, { status: 400 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? Math.min(Math.max(Number(limitParam) || 0, 1), 50) : 50;
+  const offset = Math.max(Number(searchParams.get('offset')) || 0, 0);
+
+  try {
+    const tracks = await getAlbumTracks(params.id, { limit, offset });
+    return NextResponse.json(tracks);
+  } catch (error) {
+    console.error('Failed to fetch album tracks', error);
+    return NextResponse.json({ error: 'Failed to fetch album tracks.' }, { status: 500 });
+  }
+}
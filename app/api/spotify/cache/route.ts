@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { getSpotifyCacheStats } from '@/lib/spotifyCache';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json(getSpotifyCacheStats());
+}
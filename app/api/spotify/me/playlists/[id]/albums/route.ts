@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getSpotifyUserAccessToken } from '@/lib/spotifySession';
+import { isSpotifyId } from '@/utils/spotify';
+import { appendPlaylistTracks, selectAlbumTrackUris } from '@/utils/spotifyPlaylistWriter';
+
+type PlaylistAlbumsParams = {
+  params: {
+    id: string;
+  };
+};
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Append one album's tracks to a playlist the user just created. Clients call this once per
+ * album, in ranked order, so they can report progress and failures album by album.
+ */
+export async function POST(request: Request, { params }: PlaylistAlbumsParams) {
+  const accessToken = await getSpotifyUserAccessToken();
+  if (!accessToken) {
+    return NextResponse.json({ error: 'Sign in with Spotify to create playlists.' }, { status: 401 });
+  }
+
+  try {
+    const { albumId, tracksPerAlbum } = await request.json();
+    if (!isSpotifyId(params.id) || typeof albumId !== 'string' || !isSpotifyId(albumId)) {
+      return NextResponse.json({ error: 'Invalid playlist or album id.' }, { status: 400 });
+    }
+
+    const limit =
+      typeof tracksPerAlbum === 'number' && Number.isFinite(tracksPerAlbum) && tracksPerAlbum > 0
+        ? Math.floor(tracksPerAlbum)
+        : null;
+    const uris = await selectAlbumTrackUris(accessToken, albumId, limit);
+    await appendPlaylistTracks(accessToken, params.id, uris);
+    return NextResponse.json({ albumId, added: uris.length });
+  } catch (error) {
+    console.error('Failed to add album to Spotify playlist', error);
+    return NextResponse.json({ error: 'Failed to add this album to the playlist.' }, { status: 500 });
+  }
+}
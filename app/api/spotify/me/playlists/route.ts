@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { getActiveSpotifySession, getSpotifyUserAccessToken, hasSpotifyScopes } from '@/lib/spotifySession';
+import { SPOTIFY_PLAYLIST_WRITE_SCOPES } from '@/utils/spotifyAuth';
+import { getUserPlaylists } from '@/utils/spotifyApi';
+import { createUserPlaylist } from '@/utils/spotifyPlaylistWriter';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const accessToken = await getSpotifyUserAccessToken();
+  if (!accessToken) {
+    return NextResponse.json({ error: 'Sign in with Spotify to list your playlists.' }, { status: 401 });
+  }
+
+  try {
+    const playlists = await getUserPlaylists(accessToken);
+    return NextResponse.json({ playlists });
+  } catch (error) {
+    console.error('Failed to load Spotify playlists', error);
+    return NextResponse.json({ error: 'Failed to load your Spotify playlists.' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await getActiveSpotifySession();
+  if (!session) {
+    return NextResponse.json({ error: 'Sign in with Spotify to create playlists.' }, { status: 401 });
+  }
+  if (!hasSpotifyScopes(session, SPOTIFY_PLAYLIST_WRITE_SCOPES)) {
+    return NextResponse.json(
+      { error: 'Sign in with Spotify again to allow creating playlists.', reauth: true },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const { name, description, isPublic } = await request.json();
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Playlist name is required.' }, { status: 400 });
+    }
+
+    const playlist = await createUserPlaylist(session.accessToken, session.user.id, {
+      name,
+      description: typeof description === 'string' ? description : '',
+      isPublic: isPublic === true,
+    });
+    return NextResponse.json(playlist, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create Spotify playlist', error);
+    return NextResponse.json({ error: 'Failed to create the Spotify playlist.' }, { status: 500 });
+  }
+}
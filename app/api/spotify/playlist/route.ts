@@ -1,48 +1,186 @@
 import { NextResponse } from 'next/server';
+import axios from 'axios';
+import { getSpotifyUserAccessToken } from '@/lib/spotifySession';
 import {
   getPlaylistTracks,
   getPlaylistDetails,
   getAlbumsDetails,
+  getTrackAlbumId,
+  getArtistAlbums,
+  type SpotifyAlbumDetail,
 } from '@/utils/spotifyApi';
-import { extractPlaylistIdFromUrl } from '@/utils/spotify';
+import {
+  parseSpotifyLink,
+  type ArtistAlbumGroup,
+  type SpotifyLink,
+  type SpotifyLinkKind,
+} from '@/utils/spotify';
 
 export const dynamic = 'force-dynamic';
 
+const MAX_TRACKS_LIMIT = 5000;
+const ARTIST_GROUPS: ArtistAlbumGroup[] = ['album', 'single', 'compilation'];
+// Only playlists can be private, so only they point at signing in
+const NOT_FOUND_MESSAGES: Record<SpotifyLinkKind, string> = {
+  playlist: 'Playlist not found. Private playlists require signing in with Spotify.',
+  album: 'Album not found.',
+  artist: 'Artist not found.',
+  track: 'Track not found.',
+};
+
+/** Wrap an album as a pseudo playlist track so clients can reuse their playlist mapping. */
+const toAlbumTrackItem = (album: SpotifyAlbumDetail) => {
+  const artists = album.artists ?? [];
+  return {
+    track: {
+      name: album.name,
+      artists,
+      album: {
+        id: album.id,
+        name: album.name,
+        images: album.images,
+        release_date: album.release_date,
+        label: album.label,
+        artists,
+        type: album.album_type,
+        album_type: album.album_type,
+        external_urls: album.external_urls,
+      },
+    },
+  };
+};
+
+async function loadPlaylistSource(
+  playlistId: string,
+  trackLimit: number | undefined,
+  accessToken: string | undefined
+) {
+  // Fetch tracks and playlist details in parallel
+  const [{ items: tracks, total, truncated }, details] = await Promise.all([
+    getPlaylistTracks(playlistId, { maxTracks: trackLimit, accessToken }),
+    getPlaylistDetails(playlistId, { accessToken }),
+  ]);
+
+  // Extract unique album IDs from tracks
+  interface TrackItem {
+    track?: { album?: { id?: string } };
+  }
+  const albumIds = Array.from(new Set(
+    (tracks as TrackItem[])
+      .map((item) => item?.track?.album?.id)
+      .filter((id): id is string => typeof id === 'string' && id.length > 0)
+  ));
+
+  // Fetch album details (batches run in parallel internally)
+  const albumDetails =
+    albumIds.length > 0 ? await getAlbumsDetails(albumIds) : {};
+
+  return {
+    tracks,
+    playlist: details,
+    albumDetails,
+    totalTracks: total,
+    truncated,
+  };
+}
+
+async function loadAlbumSource(albumId: string) {
+  const albumDetails = await getAlbumsDetails([albumId]);
+  const album = albumDetails[albumId];
+  if (!album) {
+    return null;
+  }
+
+  const artists = album.artists ?? [];
+  return {
+    tracks: [toAlbumTrackItem(album)],
+    playlist: {
+      name: album.name,
+      owner: artists.map((artist) => artist.name).filter(Boolean).join(', ') || 'Unknown Artist',
+      image: album.images[0]?.url ?? null,
+    },
+    albumDetails,
+    totalTracks: 1,
+    truncated: false,
+  };
+}
+
+async function loadArtistSource(artistId: string, groups: ArtistAlbumGroup[], dedupe: boolean) {
+  const { artist, albums, total, truncated } = await getArtistAlbums(artistId, { groups, dedupe });
+
+  // The artist albums endpoint omits labels, so enrich from the full album objects
+  const albumDetails =
+    albums.length > 0 ? await getAlbumsDetails(albums.map((album) => album.id)) : {};
+
+  return {
+    tracks: albums.map((album) => toAlbumTrackItem({ ...album, label: albumDetails[album.id]?.label ?? null })),
+    playlist: {
+      name: `Artist: ${artist.name}`,
+      owner: artist.name,
+      image: artist.image,
+    },
+    albumDetails,
+    // Artist sources list one item per album, so the total counts albums rather than tracks
+    totalAlbums: total,
+    truncated,
+  };
+}
+
 export async function POST(request: Request) {
+  let linkKind: SpotifyLinkKind | null = null;
   try {
-    const { url } = await request.json();
-    const playlistId =
-      typeof url === 'string' ? extractPlaylistIdFromUrl(url) || url : null;
+    const { url, maxTracks, artistOptions } = await request.json();
+    const link = typeof url === 'string' ? parseSpotifyLink(url) : null;
+    linkKind = link?.kind ?? null;
 
-    if (!playlistId) {
+    if (!link) {
       return NextResponse.json(
-        { error: 'Invalid playlist URL or ID.' },
+        { error: 'Invalid Spotify playlist, album, artist or track link.' },
         { status: 400 }
       );
     }
 
-    // Fetch tracks and playlist details in parallel
-    const [tracks, details] = await Promise.all([
-      getPlaylistTracks(playlistId),
-      getPlaylistDetails(playlistId),
-    ]);
+    const trackLimit =
+      typeof maxTracks === 'number' && Number.isFinite(maxTracks) && maxTracks > 0
+        ? Math.min(Math.floor(maxTracks), MAX_TRACKS_LIMIT)
+        : undefined;
 
-    // Extract unique album IDs from tracks
-    interface TrackItem {
-      track?: { album?: { id?: string } };
+    let source: SpotifyLink = link;
+    if (link.kind === 'track') {
+      const albumId = await getTrackAlbumId(link.id);
+      if (!albumId) {
+        return NextResponse.json({ error: NOT_FOUND_MESSAGES.track }, { status: 404 });
+      }
+      source = { kind: 'album', id: albumId };
     }
-    const albumIds = Array.from(new Set(
-      (tracks as TrackItem[])
-        .map((item) => item?.track?.album?.id)
-        .filter((id): id is string => typeof id === 'string' && id.length > 0)
-    ));
 
-    // Fetch album details (batches run in parallel internally)
-    const albumDetails =
-      albumIds.length > 0 ? await getAlbumsDetails(albumIds) : {};
+    if (source.kind === 'artist') {
+      const requestedGroups: unknown[] = Array.isArray(artistOptions?.groups) ? artistOptions.groups : [];
+      const groups = ARTIST_GROUPS.filter((group) => requestedGroups.includes(group));
+      const artistSource = await loadArtistSource(
+        source.id,
+        groups.length > 0 ? groups : ['album'],
+        artistOptions?.dedupe !== false
+      );
+      return NextResponse.json({ source, ...artistSource });
+    }
 
-    return NextResponse.json({ tracks, playlist: details, albumDetails });
+    if (source.kind === 'album') {
+      const albumSource = await loadAlbumSource(source.id);
+      if (!albumSource) {
+        return NextResponse.json({ error: NOT_FOUND_MESSAGES.album }, { status: 404 });
+      }
+      return NextResponse.json({ source, ...albumSource });
+    }
+
+    // Signed-in users can read their private and collaborative playlists
+    const accessToken = (await getSpotifyUserAccessToken()) ?? undefined;
+    const playlistSource = await loadPlaylistSource(source.id, trackLimit, accessToken);
+    return NextResponse.json({ source, ...playlistSource });
   } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return NextResponse.json({ error: NOT_FOUND_MESSAGES[linkKind ?? 'playlist'] }, { status: 404 });
+    }
     console.error('Failed to load playlist', error);
     return NextResponse.json(
       { error: 'Failed to load playlist from Spotify.' },
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { deleteTierListById, getTierListById, getTierListEditAccess, updateTierList } from '@/lib/tierLists';
+import { parseTierListInput } from '@/lib/tierListPayload';
+import { editAccessError, readEditToken } from '@/lib/editTokens';
+import { sweepExpiredTrash } from '@/lib/trash';
+import type { TierListUpdate } from '@/types/tier-list';
+
+type TierListParams = {
+  params: {
+    id: string;
+  };
+};
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: Request, { params }: TierListParams) {
+  const tierList = await getTierListById(params.id);
+
+  if (!tierList) {
+    return NextResponse.json({ message: 'Tier list not found.' }, { status: 404 });
+  }
+
+  return NextResponse.json(tierList);
+}
+
+/**
+ * Replace the board's placements, tier metadata and image. The source playlist and remix origin
+ * cannot change, so `playlistId` and `remixedFrom` are ignored.
+ */
+export async function PUT(request: Request, { params }: TierListParams) {
+  const input = parseTierListInput(await request.json().catch(() => null));
+  if (!input) {
+    return NextResponse.json({ message: 'Invalid tier list payload.' }, { status: 400 });
+  }
+  const update: TierListUpdate = {
+    playlistName: input.playlistName,
+    playlistOwner: input.playlistOwner,
+    playlistImage: input.playlistImage,
+    imageDataUrl: input.imageDataUrl,
+    albums: input.albums,
+    tierMetadata: input.tierMetadata,
+  };
+
+  try {
+    const accessError = editAccessError(
+      await getTierListEditAccess(params.id, readEditToken(request)),
+      'Tier list'
+    );
+    if (accessError) {
+      return accessError;
+    }
+
+    const tierList = await updateTierList(params.id, update);
+    if (!tierList) {
+      return NextResponse.json({ message: 'Tier list not found.' }, { status: 404 });
+    }
+    return NextResponse.json(tierList);
+  } catch (error) {
+    console.error('Failed to update tier list', error);
+    return NextResponse.json({ message: 'Failed to update tier list.' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: TierListParams) {
+  try {
+    const accessError = editAccessError(
+      await getTierListEditAccess(params.id, readEditToken(request)),
+      'Tier list'
+    );
+    if (accessError) {
+      return accessError;
+    }
+
+    await deleteTierListById(params.id);
+    await sweepExpiredTrash();
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete tier list', error);
+    return NextResponse.json({ message: 'Failed to delete tier list.' }, { status: 500 });
+  }
+}
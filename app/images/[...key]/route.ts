@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getBlobStore } from '@/lib/blobs';
+
+export const dynamic = 'force-dynamic';
+
+const VALID_SEGMENT = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+export async function GET(request: Request, { params }: { params: { key: string[] } }) {
+  if (!params.key.every((segment) => VALID_SEGMENT.test(segment))) {
+    return new NextResponse('Not Found', { status: 404 });
+  }
+
+  const key = params.key.join('/');
+  // Keys are never reused, so the key itself works as a strong validator
+  const etag = `"${key}"`;
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+  }
+
+  try {
+    const blob = await getBlobStore().get(key);
+    if (!blob) {
+      return new NextResponse('Not Found', { status: 404 });
+    }
+
+    return new NextResponse(blob.body, {
+      headers: {
+        'Content-Type': blob.contentType,
+        'Content-Length': String(blob.body.length),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        ETag: etag,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to read image ${key}`, error);
+    return new NextResponse('Failed to load image.', { status: 500 });
+  }
+}
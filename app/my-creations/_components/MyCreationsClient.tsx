@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  EDIT_TOKEN_HEADER,
+  forgetOwnedCreation,
+  readOwnedCreations,
+  type OwnedCreation,
+} from '@/utils/ownedCreations';
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleDateString();
+};
+
+const viewHref = (creation: OwnedCreation) =>
+  creation.kind === 'review' ? `/reviews/${creation.id}` : `/tier-lists/${creation.id}`;
+
+const deleteEndpoint = (creation: OwnedCreation) =>
+  creation.kind === 'review' ? `/api/reviews/${creation.id}` : `/api/tier-lists/${creation.id}`;
+
+export default function MyCreationsClient() {
+  // Read after mount: the list lives in localStorage, which the server render cannot see
+  const [creations, setCreations] = useState<OwnedCreation[] | null>(null);
+  const [deletingKey, setDeletingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCreations(readOwnedCreations());
+  }, []);
+
+  const handleDelete = async (creation: OwnedCreation) => {
+    if (!window.confirm(`Delete "${creation.title}"? This action cannot be undone.`)) {
+      return;
+    }
+
+    setDeletingKey(`${creation.kind}:${creation.id}`);
+    setError(null);
+
+    try {
+      const response = await fetch(deleteEndpoint(creation), {
+        method: 'DELETE',
+        headers: { [EDIT_TOKEN_HEADER]: creation.editToken },
+      });
+      // Already removed elsewhere (for example by a moderator); drop it from the list as well
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.message ?? 'Failed to delete.');
+      }
+      forgetOwnedCreation(creation.kind, creation.id);
+      setCreations(readOwnedCreations());
+    } catch (deleteError) {
+      console.error('Failed to delete creation', deleteError);
+      setError(deleteError instanceof Error ? deleteError.message : 'Failed to delete.');
+    } finally {
+      setDeletingKey(null);
+    }
+  };
+
+  return (
+    <main className="mx-auto w-full max-w-4xl px-4 py-10 text-gray-100 sm:px-6">
+      <h1 className="text-3xl font-bold text-white">My creations</h1>
+      <p className="mt-2 text-sm text-gray-400">
+        Reviews and tier lists saved from this browser. Editing rights are stored only here, so clearing site data
+        or switching browsers means they can no longer be changed.
+      </p>
+
+      {error && (
+        <div className="mt-6 rounded border border-red-500 bg-red-500/10 px-3 py-2 text-sm text-red-200">{error}</div>
+      )}
+
+      {creations && creations.length === 0 && (
+        <div className="mt-8 rounded-lg border border-gray-800 bg-gray-950/60 px-4 py-6 text-sm text-gray-300">
+          Nothing here yet. Save a review from the{' '}
+          <Link href="/review-builder" className="font-semibold text-emerald-300 hover:text-emerald-200">
+            Review Builder
+          </Link>{' '}
+          or share a board from the{' '}
+          <Link href="/tier-maker" className="font-semibold text-emerald-300 hover:text-emerald-200">
+            Tier Maker
+          </Link>
+          .
+        </div>
+      )}
+
+      {creations && creations.length > 0 && (
+        <ul className="mt-8 divide-y divide-gray-800 rounded-lg border border-gray-800 bg-gray-950/60">
+          {creations.map((creation) => {
+            const key = `${creation.kind}:${creation.id}`;
+            return (
+              <li key={key} className="flex flex-wrap items-center gap-3 px-4 py-3">
+                <div className="min-w-0 flex-1">
+                  <Link href={viewHref(creation)} className="font-semibold text-white hover:text-emerald-300">
+                    {creation.title}
+                  </Link>
+                  <p className="text-xs text-gray-400">
+                    {creation.kind === 'review' ? 'Review' : 'Tier list'} · {formatDate(creation.createdAt)}
+                  </p>
+                </div>
+                <Link
+                  href={
+                    creation.kind === 'review'
+                      ? `/review-builder?reviewId=${creation.id}`
+                      : `/tier-maker?tierListId=${creation.id}`
+                  }
+                  className="rounded border border-gray-700 px-3 py-1.5 text-xs font-medium text-gray-200 transition-colors hover:border-emerald-400 hover:text-emerald-300"
+                >
+                  Edit
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(creation)}
+                  disabled={deletingKey === key}
+                  className="rounded border border-red-500 px-3 py-1.5 text-xs font-semibold text-red-200 transition-colors hover:border-red-400 hover:text-red-100 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {deletingKey === key ? 'Deleting…' : 'Delete'}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,23 @@
+import type { Metadata } from 'next';
+import MyCreationsClient from './_components/MyCreationsClient';
+
+const title = 'My Reviews and Tier Lists';
+const description = 'Reviews and tier lists created in this browser, ready to edit or remove.';
+
+export function generateMetadata(): Metadata {
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: '/my-creations',
+    },
+    robots: {
+      index: false,
+      follow: false,
+    },
+  };
+}
+
+export default function MyCreationsPage() {
+  return <MyCreationsClient />;
+}
@@ -3,11 +3,20 @@
 import { Suspense, useEffect, useMemo, useState } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { Copy, Link as LinkIcon, FileImage } from 'lucide-react';
-import { extractPlaylistIdFromUrl } from '@/utils/spotify';
+import {
+  defaultArtistSourceOptions,
+  parseSpotifyLink,
+  sourceIdToSpotifyUrl,
+  toSourceId,
+  toSpotifyUrl,
+  type ArtistSourceOptions,
+} from '@/utils/spotify';
 import PlaylistAnalyzer, { InputMode } from '@/components/PlaylistAnalyzer';
+import ArtistSourceFilters from '@/components/ArtistSourceFilters';
 import { DragDropContext } from 'react-beautiful-dnd';
 import type { StoredReview } from '@/types/review';
 import ImageListImporter from './ImageListImporter';
+import SpotifyPlaylistPicker from './SpotifyPlaylistPicker';
 
 interface SpotifyAlbum {
   id: string;
@@ -25,8 +34,9 @@ function InnerReviewBuilder() {
   const searchParams = useSearchParams();
   const initialPlaylistId = searchParams.get('playlistId');
   const reviewId = searchParams.get('reviewId');
+  const spotifyLoginFailed = searchParams.get('spotifyLogin') === 'failed';
   const [playlistUrl, setPlaylistUrl] = useState(() =>
-    initialPlaylistId ? `https://open.spotify.com/playlist/${initialPlaylistId}` : ''
+    initialPlaylistId ? sourceIdToSpotifyUrl(initialPlaylistId) ?? '' : ''
   );
   const [playlistId, setPlaylistId] = useState<string | null>(initialPlaylistId);
   const [inputMode, setInputMode] = useState<InputMode>('review');
@@ -36,6 +46,9 @@ function InnerReviewBuilder() {
   const [preloadError, setPreloadError] = useState<string | null>(null);
   const [importSource, setImportSource] = useState<ImportSource>('playlist');
   const [importedAlbums, setImportedAlbums] = useState<SpotifyAlbum[]>([]);
+  const [artistOptions, setArtistOptions] = useState<ArtistSourceOptions>(defaultArtistSourceOptions);
+  const [loadedArtistOptions, setLoadedArtistOptions] = useState<ArtistSourceOptions | undefined>(undefined);
+  const isArtistLink = parseSpotifyLink(playlistUrl)?.kind === 'artist';
   const samplePlaylistUrl = 'https://open.spotify.com/playlist/0xy8aNki7WxsM42dkTOmER';
 
   const preloadedInitialData = useMemo(
@@ -55,7 +68,7 @@ function InnerReviewBuilder() {
   useEffect(() => {
     if (initialPlaylistId) {
       setPlaylistId(initialPlaylistId);
-      setPlaylistUrl(`https://open.spotify.com/playlist/${initialPlaylistId}`);
+      setPlaylistUrl(sourceIdToSpotifyUrl(initialPlaylistId) ?? '');
     }
   }, [initialPlaylistId]);
 
@@ -81,7 +94,7 @@ function InnerReviewBuilder() {
         if (isCancelled) return;
         setPreloadedReview(data);
         setPlaylistId(data.playlistId);
-        setPlaylistUrl(`https://open.spotify.com/playlist/${data.playlistId}`);
+        setPlaylistUrl(sourceIdToSpotifyUrl(data.playlistId) ?? '');
         setInputMode(data.reviewMode);
       } catch (error) {
         if (isCancelled) return;
@@ -120,17 +133,27 @@ function InnerReviewBuilder() {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const id = extractPlaylistIdFromUrl(playlistUrl);
-    if (id) {
+    const link = parseSpotifyLink(playlistUrl);
+    if (link) {
       setPreloadedReview(null);
       setPreloadError(null);
-      setPlaylistId(id);
+      setLoadedArtistOptions(link.kind === 'artist' ? artistOptions : undefined);
+      setPlaylistId(toSourceId(link));
       setImportedAlbums([]);
     } else {
-      alert("Geçersiz Spotify playlist URL'si. Lütfen kontrol edip tekrar deneyin.");
+      alert("Geçersiz Spotify playlist, albüm, sanatçı veya şarkı URL'si. Lütfen kontrol edip tekrar deneyin.");
     }
   };
 
+  const handlePickPlaylist = (pickedPlaylistId: string) => {
+    setPlaylistUrl(toSpotifyUrl({ kind: 'playlist', id: pickedPlaylistId }));
+    setPreloadedReview(null);
+    setPreloadError(null);
+    setLoadedArtistOptions(undefined);
+    setPlaylistId(pickedPlaylistId);
+    setImportedAlbums([]);
+  };
+
   const handleImageImport = (albums: SpotifyAlbum[]) => {
     setImportedAlbums(albums);
     setPlaylistId(null);
@@ -183,6 +206,12 @@ function InnerReviewBuilder() {
         </div>
         {importSource === 'playlist' && (
           <>
+            {spotifyLoginFailed && (
+              <div className="mb-5 rounded border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-100">
+                Spotify sign-in did not complete. Please try again.
+              </div>
+            )}
+            <SpotifyPlaylistPicker onSelect={handlePickPlaylist} />
             <div className="mb-5 flex flex-wrap items-center gap-3 rounded-2xl border border-gray-800 bg-gray-900/50 px-4 py-3 text-xs shadow-inner shadow-black/40">
               <span className="uppercase tracking-wide text-gray-400">Sample playlist</span>
               <a
@@ -207,9 +236,16 @@ function InnerReviewBuilder() {
                 type="text"
                 value={playlistUrl}
                 onChange={(e) => setPlaylistUrl(e.target.value)}
-                placeholder="Drop your playlist link to get started"
+                placeholder="Drop a playlist, album, artist or track link to get started"
                 className="mb-3 w-full rounded-2xl border border-gray-700/80 bg-gray-900/70 px-4 py-3 text-base text-gray-100 placeholder-gray-500 transition focus:border-emerald-400 focus:outline-none"
               />
+              {isArtistLink && (
+                <ArtistSourceFilters
+                  value={artistOptions}
+                  onChange={setArtistOptions}
+                  className="mb-3"
+                />
+              )}
               <button
                 type="submit"
                 className="w-full rounded-2xl bg-emerald-500 px-4 py-3 text-center text-base font-semibold text-gray-900 transition hover:bg-emerald-400 sm:w-auto sm:px-6"
@@ -240,6 +276,8 @@ function InnerReviewBuilder() {
             inputMode={inputMode}
             onInputModeChange={setInputMode}
             initialData={preloadedInitialData}
+            reviewId={preloadedReview?.id}
+            artistOptions={loadedArtistOptions}
           />
         )}
         {importedAlbums.length > 0 && !playlistId && (
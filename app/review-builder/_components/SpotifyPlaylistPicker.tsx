@@ -0,0 +1,184 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { ListMusic, Loader2, LogIn, LogOut, Lock, Users } from 'lucide-react';
+import type { SpotifyUserPlaylist } from '@/utils/spotifyApi';
+
+interface SpotifySessionUser {
+  id: string;
+  displayName: string;
+  image: string | null;
+}
+
+interface SpotifyPlaylistPickerProps {
+  onSelect: (playlistId: string) => void;
+}
+
+export default function SpotifyPlaylistPicker({ onSelect }: SpotifyPlaylistPickerProps) {
+  const [enabled, setEnabled] = useState(false);
+  const [user, setUser] = useState<SpotifySessionUser | null>(null);
+  const [playlists, setPlaylists] = useState<SpotifyUserPlaylist[] | null>(null);
+  const [filter, setFilter] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const fetchSession = async () => {
+      try {
+        const response = await fetch('/api/auth/spotify/session');
+        if (!response.ok) return;
+        const data = await response.json();
+        if (isCancelled) return;
+        setEnabled(Boolean(data.enabled));
+        setUser(data.user ?? null);
+      } catch (sessionError) {
+        console.error('Failed to read Spotify session', sessionError);
+      }
+    };
+
+    fetchSession();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const loadPlaylists = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/spotify/me/playlists');
+      if (response.status === 401) {
+        setUser(null);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to load playlists');
+      }
+      const data = await response.json();
+      setPlaylists(data.playlists ?? []);
+    } catch (fetchError) {
+      console.error(fetchError);
+      setError('Unable to load your playlists right now.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/spotify/logout', { method: 'POST' });
+    } finally {
+      setUser(null);
+      setPlaylists(null);
+    }
+  };
+
+  if (!enabled) {
+    return null;
+  }
+
+  if (!user) {
+    return (
+      <div className="mb-5 flex flex-wrap items-center gap-3 rounded-2xl border border-gray-800 bg-gray-900/50 px-4 py-3 text-sm text-gray-300">
+        <span>Want to review a private or collaborative playlist?</span>
+        <a
+          href="/api/auth/spotify/login?returnTo=/review-builder"
+          className="inline-flex items-center gap-2 rounded-full bg-emerald-500 px-3 py-1 text-xs font-semibold text-gray-900 transition hover:bg-emerald-400"
+        >
+          <LogIn className="h-3.5 w-3.5" />
+          Sign in with Spotify
+        </a>
+      </div>
+    );
+  }
+
+  const normalizedFilter = filter.trim().toLowerCase();
+  const visiblePlaylists = (playlists ?? []).filter((playlist) =>
+    normalizedFilter ? playlist.name.toLowerCase().includes(normalizedFilter) : true
+  );
+
+  return (
+    <div className="mb-5 rounded-2xl border border-gray-800 bg-gray-900/50 px-4 py-3 text-sm text-gray-300">
+      <div className="flex flex-wrap items-center gap-3">
+        <span>
+          Signed in as <span className="font-semibold text-gray-100">{user.displayName}</span>
+        </span>
+        {playlists === null && (
+          <button
+            type="button"
+            onClick={loadPlaylists}
+            disabled={loading}
+            className="inline-flex items-center gap-2 rounded-full border border-gray-700 px-3 py-1 text-xs text-gray-200 transition-colors hover:border-emerald-400 hover:text-emerald-300 disabled:opacity-60"
+          >
+            {loading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ListMusic className="h-3.5 w-3.5" />}
+            Pick from my playlists
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleLogout}
+          className="ml-auto inline-flex items-center gap-1 text-xs text-gray-400 transition-colors hover:text-gray-200"
+        >
+          <LogOut className="h-3.5 w-3.5" />
+          Sign out
+        </button>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+      {playlists !== null && (
+        <div className="mt-3">
+          <input
+            type="text"
+            value={filter}
+            onChange={(event) => setFilter(event.target.value)}
+            placeholder="Filter your playlists"
+            className="mb-2 w-full rounded-xl border border-gray-700/80 bg-gray-900/70 px-3 py-2 text-sm text-gray-100 placeholder-gray-500 focus:border-emerald-400 focus:outline-none"
+          />
+          {visiblePlaylists.length === 0 ? (
+            <p className="px-1 py-2 text-xs text-gray-400">No playlists found.</p>
+          ) : (
+            <ul className="max-h-72 space-y-1 overflow-y-auto pr-1">
+              {visiblePlaylists.map((playlist) => (
+                <li key={playlist.id}>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(playlist.id)}
+                    className="flex w-full items-center gap-3 rounded-lg px-2 py-1.5 text-left transition-colors hover:bg-gray-800"
+                  >
+                    {playlist.image ? (
+                      <Image
+                        src={playlist.image}
+                        alt={playlist.name}
+                        width={40}
+                        height={40}
+                        className="h-10 w-10 flex-shrink-0 rounded object-cover"
+                      />
+                    ) : (
+                      <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded bg-gray-800">
+                        <ListMusic className="h-4 w-4 text-gray-500" />
+                      </div>
+                    )}
+                    <span className="min-w-0 flex-1">
+                      <span className="block truncate text-gray-100">{playlist.name}</span>
+                      <span className="block truncate text-xs text-gray-400">
+                        {playlist.owner} · {playlist.trackCount} tracks
+                      </span>
+                    </span>
+                    {playlist.collaborative ? (
+                      <Users className="h-4 w-4 flex-shrink-0 text-gray-500" aria-label="Collaborative" />
+                    ) : playlist.public === false ? (
+                      <Lock className="h-4 w-4 flex-shrink-0 text-gray-500" aria-label="Private" />
+                    ) : null}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
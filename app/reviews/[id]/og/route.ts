@@ -4,22 +4,8 @@ import { getReviewById } from '@/lib/reviews';
 const sanitize = (value: string) =>
   value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 
-const parseDataUrl = (dataUrl: string) => {
-  const match = dataUrl.match(/^data:(.+);base64,(.*)$/);
-  if (!match) {
-    return null;
-  }
-  const [, mimeType, base64Data] = match;
-  try {
-    const buffer = Buffer.from(base64Data, 'base64');
-    return { mimeType, buffer };
-  } catch {
-    return null;
-  }
-};
-
 export async function GET(
-  _request: Request,
+  request: Request,
   { params }: { params: { id: string } }
 ) {
   const review = await getReviewById(params.id);
@@ -28,16 +14,11 @@ export async function GET(
     return new NextResponse('Not Found', { status: 404 });
   }
 
-  if (review.imageDataUrl) {
-    const parsed = parseDataUrl(review.imageDataUrl);
-    if (parsed) {
-      return new NextResponse(parsed.buffer, {
-        headers: {
-          'Content-Type': parsed.mimeType,
-          'Cache-Control': 'public, max-age=86400, immutable',
-        },
-      });
-    }
+  // The exported image is served (and cached) by the image route; this URL only points at it
+  if (review.imageUrl) {
+    return NextResponse.redirect(new URL(review.imageUrl, request.url), {
+      headers: { 'Cache-Control': 'public, max-age=600' },
+    });
   }
 
   const playlistName = sanitize(review.playlistName);
@@ -61,8 +61,8 @@ export async function generateMetadata({
   );
   const pageTitle = `${review.playlistName} Playlist Review`;
   const canonicalPath = `/reviews/${review.id}`;
-  const ogImage = review.imageDataUrl
-    ? `${siteUrl}/reviews/${review.id}/og`
+  const ogImage = review.imageUrl
+    ? `${siteUrl}${review.imageUrl}`
     : review.playlistImage ?? `${siteUrl}/favicon.svg`;
 
   return {
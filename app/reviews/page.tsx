@@ -1,14 +1,36 @@
 import type { Metadata } from 'next';
 import Image from 'next/image';
 import Link from 'next/link';
-import { readReviews } from '@/lib/reviews';
-import { readTierLists } from '@/lib/tierLists';
+import { listReviewSummaries } from '@/lib/reviews';
+import { listTierListSummaries } from '@/lib/tierLists';
+import { isStorageConfigured } from '@/lib/storage';
+import { decodeCursor } from '@/lib/pagination';
+import ListPager from '@/components/ListPager';
 import { tierDefinitions, mergeTierMetadata } from '@/data/tierMaker';
-import type { StoredReview } from '@/types/review';
-import type { StoredTierList } from '@/types/tier-list';
+import type { ReviewSummary } from '@/types/review';
+import type { TierListSummary } from '@/types/tier-list';
 
 export const dynamic = 'force-dynamic';
 
+const REVIEWS_PAGE_SIZE = 24;
+const TIER_LISTS_PAGE_SIZE = 12;
+
+type ReviewsPageProps = {
+  searchParams?: Record<string, string | string[] | undefined>;
+};
+
+const getParamValue = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value ?? '';
+
+// Reviews and tier lists page independently; each link keeps the other list's position
+const buildPageHref = (params: { cursor?: string | null; tiersCursor?: string | null }, hash = '') => {
+  const search = new URLSearchParams();
+  if (params.cursor) search.set('cursor', params.cursor);
+  if (params.tiersCursor) search.set('tiersCursor', params.tiersCursor);
+  const query = search.toString();
+  return `/reviews${query ? `?${query}` : ''}${hash}`;
+};
+
 const title = 'Latest Spotify Playlist Reviews';
 const description =
   'Browse every Spotify playlist review shared with myrating.space. Discover standout albums, artists, and curated rankings from music fans.';
@@ -45,27 +67,31 @@ const formatDate = (iso: string) => {
   }
 };
 
-export default async function ReviewsPage() {
-  let reviews: StoredReview[] = [];
-  let tierLists: StoredTierList[] = [];
+export default async function ReviewsPage({ searchParams }: ReviewsPageProps) {
+  const reviewsCursor = getParamValue(searchParams?.cursor);
+  const tiersCursor = getParamValue(searchParams?.tiersCursor);
+  let reviews: ReviewSummary[] = [];
+  let tierLists: TierListSummary[] = [];
+  let nextReviewsCursor: string | null = null;
+  let nextTiersCursor: string | null = null;
   let loadError = false;
-  let missingDb = false;
+  const missingDb = !isStorageConfigured();
 
-  try {
-    [reviews, tierLists] = await Promise.all([readReviews(), readTierLists()]);
-  } catch (error) {
-    console.error('Failed to load reviews/tier lists', error);
-    loadError = true;
-  }
-  if (!process.env.POSTGRES_URL && !process.env.POSTGRES_URL_NON_POOLING) {
-    missingDb = true;
+  if (!missingDb) {
+    try {
+      const [reviewPage, tierListPage] = await Promise.all([
+        listReviewSummaries({ limit: REVIEWS_PAGE_SIZE, cursor: decodeCursor(reviewsCursor) }),
+        listTierListSummaries({ limit: TIER_LISTS_PAGE_SIZE, cursor: decodeCursor(tiersCursor) }),
+      ]);
+      reviews = reviewPage.items;
+      nextReviewsCursor = reviewPage.nextCursor;
+      tierLists = tierListPage.items;
+      nextTiersCursor = tierListPage.nextCursor;
+    } catch (error) {
+      console.error('Failed to load reviews/tier lists', error);
+      loadError = true;
+    }
   }
-  const sorted = [...reviews].sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
-  const sortedTierLists = [...tierLists].sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
 
   return (
     <div className="mx-auto min-h-screen max-w-6xl bg-gray-900 px-4 py-10 text-gray-100 sm:px-6 lg:px-10">
@@ -76,7 +102,7 @@ export default async function ReviewsPage() {
       )}
       {!loadError && missingDb && reviews.length === 0 && tierLists.length === 0 && (
         <div className="mb-4 rounded-lg border border-amber-500/40 bg-amber-950/20 px-4 py-3 text-sm text-amber-100">
-          Database credentials are not configured. Add <code>POSTGRES_URL</code> (or <code>POSTGRES_URL_NON_POOLING</code>) to show shared reviews and tiers.
+          Database credentials are not configured. Add <code>POSTGRES_URL</code> (or <code>POSTGRES_URL_NON_POOLING</code>) to show shared reviews and tiers, or set <code>STORAGE_DRIVER=memory</code> for local development.
         </div>
       )}
       <div className="mb-8 flex justify-center">
@@ -94,13 +120,13 @@ export default async function ReviewsPage() {
         </p>
       </header>
 
-      {sorted.length === 0 ? (
+      {reviews.length === 0 ? (
         <div className="mt-6 rounded-lg border border-dashed border-gray-700 bg-gray-800/70 p-10 text-center text-gray-400">
           No shared reviews yet. Create one on the home page and save it to see it listed here.
         </div>
       ) : (
         <div className="mt-6 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
-          {sorted.map((review) => (
+          {reviews.map((review) => (
             <Link
               key={review.id}
               href={`/reviews/${review.id}`}
@@ -136,18 +162,21 @@ export default async function ReviewsPage() {
                   <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
                     <span className="flex items-center gap-1">
                       <span className="h-1.5 w-1.5 rounded-full bg-emerald-400" />
-                      {review.albums.length} album{review.albums.length === 1 ? '' : 's'}
+                      {review.albumCount} album{review.albumCount === 1 ? '' : 's'}
                     </span>
                     <span className="truncate">Shared {formatDate(review.createdAt)}</span>
+                    {review.updatedAt && (
+                      <span className="truncate">Updated {formatDate(review.updatedAt)}</span>
+                    )}
                   </div>
-                  {review.albums.length > 0 && (
+                  {review.previewAlbums.length > 0 && (
                     <p className="line-clamp-2 text-xs text-gray-300">
                       Featuring{' '}
-                      {review.albums
+                      {review.previewAlbums
                         .slice(0, 2)
                         .map((album) => `${album.name} — ${album.artist || 'Unknown Artist'}`)
                         .join('; ')}
-                      {review.albums.length > 2 ? '…' : ''}
+                      {review.albumCount > 2 ? '…' : ''}
                     </p>
                   )}
                 </div>
@@ -156,6 +185,11 @@ export default async function ReviewsPage() {
           ))}
         </div>
       )}
+      <ListPager
+        className="mt-6"
+        newestHref={reviewsCursor ? buildPageHref({ tiersCursor }) : null}
+        olderHref={nextReviewsCursor ? buildPageHref({ cursor: nextReviewsCursor, tiersCursor }) : null}
+      />
 
       <section id="tier-lists" className="mt-16 space-y-4">
         <div className="flex justify-center">
@@ -172,21 +206,19 @@ export default async function ReviewsPage() {
             Playlist curators dragging their albums into S → C lanes.
           </p>
         </header>
-        {sortedTierLists.length === 0 ? (
+        {tierLists.length === 0 ? (
           <div className="rounded-lg border border-dashed border-gray-700 bg-gray-800/70 p-8 text-center text-gray-400">
             Tier maker saves will show up here once someone shares their board.
           </div>
         ) : (
           <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-            {sortedTierLists.map((tierList) => {
+            {tierLists.map((tierList) => {
               const tierMetadata = mergeTierMetadata(tierList.tierMetadata);
-              const artPreview = tierList.albums
-                .filter((album) => album.tier !== 'unranked' && album.image)
-                .slice(0, 4);
+              const artPreview = tierList.previewAlbums;
               const tierCounts = tierDefinitions.map((tier) => ({
                 id: tier.id,
                 label: tierMetadata[tier.id]?.title ?? tier.label,
-                count: tierList.albums.filter((album) => album.tier === tier.id).length,
+                count: tierList.tierCounts[tier.id],
               }));
 
               return (
@@ -245,6 +277,10 @@ export default async function ReviewsPage() {
             })}
           </div>
         )}
+        <ListPager
+          newestHref={tiersCursor ? buildPageHref({ cursor: reviewsCursor }, '#tier-lists') : null}
+          olderHref={nextTiersCursor ? buildPageHref({ cursor: reviewsCursor, tiersCursor: nextTiersCursor }, '#tier-lists') : null}
+        />
       </section>
     </div>
   );
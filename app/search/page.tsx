@@ -0,0 +1,178 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { search } from '@/lib/search';
+import { MIN_SEARCH_LENGTH, parseSearchQuery } from '@/lib/searchQuery';
+import { isStorageConfigured } from '@/lib/storage';
+import SearchBox from '@/components/SearchBox';
+import type { SearchResult, SearchResultType } from '@/types/search';
+
+export const dynamic = 'force-dynamic';
+
+type SearchPageProps = {
+  searchParams?: Record<string, string | string[] | undefined>;
+};
+
+const getParamValue = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value ?? '';
+
+const typeFilters: { type: SearchResultType | null; label: string }[] = [
+  { type: null, label: 'Everything' },
+  { type: 'review', label: 'Reviews' },
+  { type: 'tier-list', label: 'Tier lists' },
+  { type: 'album', label: 'Albums' },
+];
+
+const typeLabels: Record<SearchResultType, string> = {
+  review: 'Review',
+  'tier-list': 'Tier list',
+  album: 'Album',
+};
+
+const buildSearchHref = (q: string, type: SearchResultType | null) => {
+  const params = new URLSearchParams({ q });
+  if (type) params.set('type', type);
+  return `/search?${params.toString()}`;
+};
+
+const resultHref = (result: SearchResult) =>
+  result.type === 'album'
+    ? `/${result.foundIn.type === 'review' ? 'reviews' : 'tier-lists'}/${result.foundIn.id}`
+    : `/${result.type === 'review' ? 'reviews' : 'tier-lists'}/${result.id}`;
+
+const resultKey = (result: SearchResult) =>
+  result.type === 'album' ? `album-${result.foundIn.id}-${result.albumId}` : `${result.type}-${result.id}`;
+
+export function generateMetadata({ searchParams }: SearchPageProps): Metadata {
+  const q = getParamValue(searchParams?.q).trim();
+  return {
+    title: q ? `Search results for “${q}”` : 'Search reviews and tier lists',
+    description: 'Search shared playlist reviews, tier lists and the albums, artists, labels and notes inside them.',
+    robots: { index: false },
+  };
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const q = getParamValue(searchParams?.q).trim();
+  const type = getParamValue(searchParams?.type);
+  const activeType = typeFilters.some((filter) => filter.type === type) ? (type as SearchResultType) : null;
+  const query = parseSearchQuery(new URLSearchParams({ q, ...(activeType ? { type: activeType } : {}) }));
+  const missingDb = !isStorageConfigured();
+  let results: SearchResult[] = [];
+  let loadError = false;
+
+  if (query && !missingDb) {
+    try {
+      results = await search(query);
+    } catch (error) {
+      console.error('Failed to load search results', error);
+      loadError = true;
+    }
+  }
+
+  return (
+    <div className="mx-auto min-h-screen max-w-4xl bg-gray-900 px-4 py-10 text-gray-100 sm:px-6 lg:px-10">
+      <header className="mb-6 space-y-2">
+        <h1 className="text-3xl font-bold">Search</h1>
+        <p className="text-sm text-gray-400">
+          Find reviews and tier lists by playlist or owner, and albums by name, artist, label or notes.
+        </p>
+      </header>
+
+      <SearchBox defaultValue={q} className="mb-4 max-w-xl" />
+
+      {q && (
+        <nav className="mb-6 flex flex-wrap gap-2" aria-label="Result types">
+          {typeFilters.map((filter) => {
+            const isActive = filter.type === activeType;
+            return (
+              <Link
+                key={filter.label}
+                href={buildSearchHref(q, filter.type)}
+                aria-current={isActive ? 'page' : undefined}
+                className={`rounded-full border px-3 py-1 text-xs font-medium transition-colors ${
+                  isActive
+                    ? 'border-emerald-400 bg-emerald-500/20 text-emerald-200'
+                    : 'border-gray-700 text-gray-300 hover:border-emerald-400 hover:text-emerald-200'
+                }`}
+              >
+                {filter.label}
+              </Link>
+            );
+          })}
+        </nav>
+      )}
+
+      {loadError && (
+        <div className="mb-4 rounded-lg border border-red-500/40 bg-red-950/30 px-4 py-3 text-sm text-red-100">
+          Unable to reach the database right now. Try the search again in a moment.
+        </div>
+      )}
+      {missingDb && (
+        <div className="mb-4 rounded-lg border border-amber-500/40 bg-amber-950/20 px-4 py-3 text-sm text-amber-100">
+          Database credentials are not configured. Add <code>POSTGRES_URL</code> (or <code>POSTGRES_URL_NON_POOLING</code>) to search shared reviews and tiers, or set <code>STORAGE_DRIVER=memory</code> for local development.
+        </div>
+      )}
+
+      {!q ? null : !query ? (
+        <p className="text-sm text-gray-400">
+          Enter at least {MIN_SEARCH_LENGTH} letters or digits to search.
+        </p>
+      ) : !loadError && !missingDb && results.length === 0 ? (
+        <div className="rounded-lg border border-dashed border-gray-700 bg-gray-800/70 p-10 text-center text-gray-400">
+          Nothing matched “{q}”. Try fewer or shorter words.
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {results.map((result) => {
+            const image = result.type === 'album' ? result.image : result.playlistImage;
+            return (
+              <li key={resultKey(result)}>
+                <Link
+                  href={resultHref(result)}
+                  className="group flex gap-3 rounded-lg border border-gray-800 bg-gray-900/80 p-3 shadow-md transition-colors hover:border-emerald-400/60"
+                >
+                  {image ? (
+                    <div className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-md border border-gray-800">
+                      <Image src={image} alt="" fill sizes="64px" className="object-cover" />
+                    </div>
+                  ) : (
+                    <div className="flex h-16 w-16 flex-shrink-0 items-center justify-center rounded-md border border-dashed border-gray-700 text-[10px] uppercase tracking-wide text-gray-500">
+                      No image
+                    </div>
+                  )}
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="rounded-full border border-gray-700 px-2 py-0.5 text-[10px] uppercase tracking-wide text-gray-400">
+                        {typeLabels[result.type]}
+                      </span>
+                      <h2 className="truncate text-base font-semibold text-white transition-colors group-hover:text-emerald-200">
+                        {result.type === 'album' ? result.name : result.playlistName}
+                      </h2>
+                    </div>
+                    {result.type === 'album' ? (
+                      <>
+                        <p className="truncate text-sm text-gray-300">
+                          {result.artist || 'Unknown Artist'}
+                          {result.label ? ` · ${result.label}` : ''}
+                        </p>
+                        {result.notes && <p className="line-clamp-2 text-xs text-gray-400">{result.notes}</p>}
+                        <p className="truncate text-xs text-gray-500">
+                          In the {result.foundIn.type === 'review' ? 'review' : 'tier list'} {result.foundIn.playlistName}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-xs uppercase tracking-wide text-gray-500">
+                        {result.playlistOwner || 'Unknown owner'} · {new Date(result.createdAt).toLocaleDateString()}
+                      </p>
+                    )}
+                  </div>
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
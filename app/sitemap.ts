@@ -1,10 +1,28 @@
 import type { MetadataRoute } from 'next';
-import { readReviews } from '@/lib/reviews';
+import { listReviewSummaries } from '@/lib/reviews';
+import { MAX_PAGE_SIZE, decodeCursor } from '@/lib/pagination';
+import type { ReviewSummary } from '@/types/review';
 
 const siteUrl = process.env.NEXT_PUBLIC_SITE_URL ?? 'https://myrating.space';
 
+async function readAllReviewSummaries() {
+  const reviews: ReviewSummary[] = [];
+  try {
+    let cursor: string | null = null;
+    do {
+      const page = await listReviewSummaries({ limit: MAX_PAGE_SIZE, cursor: cursor ? decodeCursor(cursor) : null });
+      reviews.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+  } catch (error) {
+    // The sitemap still lists the static routes when the database is unavailable
+    console.error('Failed to read reviews for the sitemap', error);
+  }
+  return reviews;
+}
+
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
-  const reviews = await readReviews();
+  const reviews = await readAllReviewSummaries();
   const staticRoutes: MetadataRoute.Sitemap = [
     {
       url: `${siteUrl}/`,
@@ -28,7 +46,7 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
 
   const reviewEntries: MetadataRoute.Sitemap = reviews.map((review) => ({
     url: `${siteUrl}/reviews/${review.id}`,
-    lastModified: new Date(review.createdAt),
+    lastModified: new Date(review.updatedAt ?? review.createdAt),
     changeFrequency: 'monthly',
     priority: 0.6,
   }));
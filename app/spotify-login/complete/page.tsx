@@ -0,0 +1,23 @@
+'use client';
+
+import { useEffect } from 'react';
+import { SPOTIFY_LOGIN_MESSAGE, type SpotifyLoginMessage } from '@/utils/spotifyLoginPopup';
+
+/** Landing page of the sign-in popup: reports the outcome to the opener and closes itself. */
+export default function SpotifyLoginCompletePage() {
+  useEffect(() => {
+    const message: SpotifyLoginMessage = {
+      type: SPOTIFY_LOGIN_MESSAGE,
+      ok: new URLSearchParams(window.location.search).get('spotifyLogin') !== 'failed',
+    };
+    if (window.opener) {
+      window.opener.postMessage(message, window.location.origin);
+      window.close();
+    } else {
+      // Opened directly rather than as a popup
+      window.location.replace('/review-builder');
+    }
+  }, []);
+
+  return <p className="px-4 py-10 text-center text-sm text-gray-400">Finishing Spotify sign-in…</p>;
+}
@@ -4,6 +4,8 @@ import Image from 'next/image';
 import { useMemo, useState } from 'react';
 import { ExternalLink, Loader2, Search, Sparkles } from 'lucide-react';
 import type { SpotifyAlbumSearchResult } from '@/utils/spotifyApi';
+import AlbumTracklist from '@/components/AlbumTracklist';
+import { isSpotifyId } from '@/utils/spotify';
 
 const presetQueries = ['Radiohead', 'Beyoncé Renaissance', 'Lana Del Rey', 'Daft Punk Discovery'];
 
@@ -175,6 +177,7 @@ export default function AlbumSearchClient() {
                     <ExternalLink className="h-4 w-4" />
                   </a>
                 )}
+                {isSpotifyId(album.id) && <AlbumTracklist albumId={album.id} />}
               </div>
             </article>
           ))}
@@ -1,7 +1,9 @@
 import type { Metadata } from 'next';
 import { notFound } from 'next/navigation';
-import { getTierListById } from '@/lib/tierLists';
+import { getTierListById, listTierListSummaries } from '@/lib/tierLists';
 import TierListDetailClient from '@/components/TierListDetailClient';
+import { CUSTOM_TIER_BOARD_ID } from '@/data/tierMaker';
+import type { StoredTierList, TierListSummary } from '@/types/tier-list';
 
 export const dynamic = 'force-dynamic';
 
@@ -13,6 +15,26 @@ type TierListPageProps = {
 
 const siteUrl = process.env.NEXT_PUBLIC_SITE_URL ?? 'https://myrating.space';
 
+const RELATED_TIER_LISTS = 6;
+
+// Other boards built from the same Spotify source, newest first
+async function loadRelatedTierLists(tierList: StoredTierList): Promise<TierListSummary[]> {
+  if (tierList.playlistId === CUSTOM_TIER_BOARD_ID) {
+    return [];
+  }
+  try {
+    const { items } = await listTierListSummaries({
+      limit: RELATED_TIER_LISTS + 1,
+      cursor: null,
+      playlistId: tierList.playlistId,
+    });
+    return items.filter((item) => item.id !== tierList.id).slice(0, RELATED_TIER_LISTS);
+  } catch (error) {
+    console.error('Failed to load related tier lists', error);
+    return [];
+  }
+}
+
 const summarizeTiers = (albums: { name: string; artist: string; tier: string }[]) => {
   const ranked = albums.filter((album) => album.tier !== 'unranked');
   if (ranked.length === 0) {
@@ -73,5 +95,7 @@ export default async function TierListPage({ params }: TierListPageProps) {
     notFound();
   }
 
-  return <TierListDetailClient tierList={tierList} />;
+  const relatedTierLists = await loadRelatedTierLists(tierList);
+
+  return <TierListDetailClient tierList={tierList} relatedTierLists={relatedTierLists} />;
 }
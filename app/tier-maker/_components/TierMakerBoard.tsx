@@ -22,16 +22,35 @@ import {
 import { CSS } from '@dnd-kit/utilities';
 import { ExternalLink, Loader2, Search, Sparkles } from 'lucide-react';
 import { toJpeg } from 'html-to-image';
-import { extractPlaylistIdFromUrl } from '@/utils/spotify';
+import {
+  defaultArtistSourceOptions,
+  parseSpotifyLink,
+  toSourceId,
+  type ArtistSourceOptions,
+} from '@/utils/spotify';
+import ArtistSourceFilters from '@/components/ArtistSourceFilters';
+import EditionGroupsPanel from '@/components/EditionGroupsPanel';
+import { groupAlbumEditions, type EditionGroup } from '@/utils/albumEditions';
+import { EDIT_TOKEN_HEADER, getEditToken, rememberOwnedCreation } from '@/utils/ownedCreations';
 import type { SpotifyAlbumSearchResult } from '@/utils/spotifyApi';
 import {
   tierDefinitions,
   createDefaultTierMetadata,
   tierColorChoices,
   tierTextColorChoices,
+  mergeTierMetadata,
+  CUSTOM_TIER_BOARD_ID,
+  DEFAULT_TIER_LIST_NAME,
 } from '@/data/tierMaker';
 import { tierPalette as sharedTierPalette, defaultTierPalette } from '@/data/tierPalette';
-import type { RankedTierId, TierId, TierListAlbum, TierMetadataMap } from '@/types/tier-list';
+import type {
+  RankedTierId,
+  StoredTierList,
+  TierId,
+  TierListAlbum,
+  TierListReference,
+  TierMetadataMap,
+} from '@/types/tier-list';
 
 type SpotifyAlbum = {
   id: string;
@@ -46,7 +65,7 @@ type SpotifyAlbum = {
 type SpotifyTrack = {
   track: {
     album: SpotifyAlbum;
-  };
+  } | null;
 };
 
 const sanitizeLabel = (value?: string | null) =>
@@ -64,6 +83,24 @@ const createEmptyTierState = (): TierState => ({
   c: [],
 });
 
+// A board is saved under the loaded Spotify source most of its albums came from; boards built
+// only from search results or older saves stay custom
+const resolveBoardPlaylistId = (albums: TierListAlbum[]) => {
+  const counts: Record<string, number> = {};
+  let best: string | null = null;
+  for (const album of albums) {
+    if (album.source !== 'playlist' || !album.sourcePlaylistId) {
+      continue;
+    }
+    const sourceId = album.sourcePlaylistId;
+    counts[sourceId] = (counts[sourceId] ?? 0) + 1;
+    if (!best || counts[sourceId] > counts[best]) {
+      best = sourceId;
+    }
+  }
+  return best ?? CUSTOM_TIER_BOARD_ID;
+};
+
 const hexToRgba = (hex: string, alpha: number, fallback: string): string => {
   if (!hex) {
     return fallback;
@@ -277,6 +314,8 @@ type BenchSearchProps = {
   playlistLoading: boolean;
   playlistError: string | null;
   onLoadPlaylist: (url: string) => void;
+  artistOptions: ArtistSourceOptions;
+  setArtistOptions: (value: ArtistSourceOptions) => void;
 };
 
 function AlbumTilePreview({ album }: { album: TierListAlbum }) {
@@ -329,9 +368,12 @@ function SearchPanel({ search }: { search: BenchSearchProps }) {
             type="text"
             value={search.playlistUrl}
             onChange={(event) => search.setPlaylistUrl(event.target.value)}
-            placeholder="Paste Spotify playlist URL"
+            placeholder="Paste Spotify playlist, album, artist or track URL"
             className="w-full rounded-xl border border-gray-700/80 bg-gray-950/60 px-4 py-3 text-sm text-gray-100 placeholder-gray-500 focus:border-emerald-400 focus:outline-none"
           />
+          {parseSpotifyLink(search.playlistUrl)?.kind === 'artist' && (
+            <ArtistSourceFilters value={search.artistOptions} onChange={search.setArtistOptions} />
+          )}
           <button
             type="submit"
             className="inline-flex items-center justify-center gap-2 rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-gray-900 shadow-lg shadow-emerald-500/30 hover:bg-emerald-400 disabled:opacity-70"
@@ -583,8 +625,15 @@ function TierAlbumTile({ album, variant }: { album: TierListAlbum; variant: 'ben
   );
 }
 
-export default function TierMakerBoard() {
-  const [playlistName, setPlaylistName] = useState('Custom Tier Board');
+type TierMakerBoardProps = {
+  /** Saved tier list to open; its owner can save over it. */
+  tierListId?: string | null;
+  /** Saved tier list to start a remix from; it is always saved as a new list. */
+  remixFromId?: string | null;
+};
+
+export default function TierMakerBoard({ tierListId = null, remixFromId = null }: TierMakerBoardProps) {
+  const [playlistName, setPlaylistName] = useState(DEFAULT_TIER_LIST_NAME);
   const [playlistOwner, setPlaylistOwner] = useState('You');
   const [playlistImage, setPlaylistImage] = useState<string | null>(null);
   const [tiers, setTiers] = useState<TierState>(() => createEmptyTierState());
@@ -594,6 +643,11 @@ export default function TierMakerBoard() {
   const [saveError, setSaveError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  const [savedAs, setSavedAs] = useState<'new' | 'update' | null>(null);
+  const [editToken, setEditToken] = useState<string | null>(null);
+  const [loadingTierList, setLoadingTierList] = useState(false);
+  const [tierListError, setTierListError] = useState<string | null>(null);
+  const [remixSource, setRemixSource] = useState<TierListReference | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchLoading, setSearchLoading] = useState(false);
   const [searchError, setSearchError] = useState<string | null>(null);
@@ -601,6 +655,8 @@ export default function TierMakerBoard() {
   const [playlistUrl, setPlaylistUrl] = useState('');
   const [playlistLoading, setPlaylistLoading] = useState(false);
   const [playlistError, setPlaylistError] = useState<string | null>(null);
+  const [artistOptions, setArtistOptions] = useState<ArtistSourceOptions>(defaultArtistSourceOptions);
+  const [mergedEditions, setMergedEditions] = useState<EditionGroup<TierListAlbum>[]>([]);
   const [activeDragItem, setActiveDragItem] = useState<{ type: 'album'; data: TierListAlbum } | null>(null);
   const [showDownloadModal, setShowDownloadModal] = useState(false);
   const boardRef = useRef<HTMLDivElement>(null);
@@ -612,12 +668,90 @@ export default function TierMakerBoard() {
     })
   );
 
+  // Opening a list for editing wins over remixing when both are in the URL
+  const sourceTierListId = tierListId ?? remixFromId;
+
+  useEffect(() => {
+    setEditToken(tierListId ? getEditToken('tier-list', tierListId) : null);
+    if (!sourceTierListId) {
+      setRemixSource(null);
+      setTierListError(null);
+      setLoadingTierList(false);
+      return;
+    }
+
+    let isCancelled = false;
+
+    const fetchTierList = async () => {
+      setLoadingTierList(true);
+      setTierListError(null);
+      try {
+        const response = await fetch(`/api/tier-lists/${sourceTierListId}`);
+        if (!response.ok) {
+          throw new Error('Tier list not found or no longer available.');
+        }
+        const data: StoredTierList = await response.json();
+        if (isCancelled) return;
+        const nextTiers = createEmptyTierState();
+        for (const album of data.albums) {
+          nextTiers[album.tier].push(album);
+        }
+        // A remix keeps the board but not the title or credit; those belong to the new author
+        setPlaylistName(tierListId ? data.playlistName : '');
+        setPlaylistOwner(tierListId ? data.playlistOwner : '');
+        setRemixSource(tierListId ? null : { id: data.id, playlistName: data.playlistName });
+        setPlaylistImage(data.playlistImage);
+        setTierMetadata(mergeTierMetadata(data.tierMetadata));
+        setTiers(nextTiers);
+        setMergedEditions([]);
+        setGeneratedImageUrl(null);
+      } catch (error) {
+        if (isCancelled) return;
+        console.error('Failed to load saved tier list', error);
+        setRemixSource(null);
+        setTierListError('Unable to load the saved tier list. It may have been removed.');
+      } finally {
+        if (!isCancelled) {
+          setLoadingTierList(false);
+        }
+      }
+    };
+
+    fetchTierList();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [tierListId, sourceTierListId]);
+
+  const handleSplitEditions = (key: string) => {
+    const group = mergedEditions.find((entry) => entry.key === key);
+    if (!group) return;
+
+    // Split editions join whichever tier the merged tile was ranked into, right after it
+    setTiers((prev) => {
+      const existingIds = new Set(Object.values(prev).flat().map((album) => album.id));
+      const tierId = (Object.keys(prev) as TierId[]).find((id) =>
+        prev[id].some((album) => album.id === group.primary.id)
+      );
+      if (!tierId) return prev;
+      const editions = group.editions
+        .filter((album) => !existingIds.has(album.id))
+        .map((album) => ({ ...album, tier: tierId }));
+      const tierAlbums = [...prev[tierId]];
+      tierAlbums.splice(tierAlbums.findIndex((album) => album.id === group.primary.id) + 1, 0, ...editions);
+      return { ...prev, [tierId]: tierAlbums };
+    });
+    setMergedEditions((prev) => prev.filter((entry) => entry.key !== key));
+  };
+
   const loadPlaylistAlbums = async (url: string) => {
-    const playlistId = extractPlaylistIdFromUrl(url);
-    if (!playlistId) {
-      setPlaylistError('Invalid Spotify playlist URL. Make sure you\'re pasting a playlist link.');
+    const link = parseSpotifyLink(url);
+    if (!link) {
+      setPlaylistError('Invalid Spotify link. Make sure you\'re pasting a playlist, album, artist or track link.');
       return;
     }
+    const sourceId = toSourceId(link);
 
     try {
       setPlaylistLoading(true);
@@ -626,17 +760,23 @@ export default function TierMakerBoard() {
       const res = await fetch('/api/spotify/playlist', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: playlistId }),
+        body: JSON.stringify({
+          url: sourceId,
+          artistOptions: link.kind === 'artist' ? artistOptions : undefined,
+        }),
       });
       if (!res.ok) throw new Error('Failed to load playlist');
-      const { tracks, playlist, albumDetails } = await res.json();
+      const { tracks, playlist, albumDetails, totalTracks, totalAlbums, truncated } = await res.json();
 
       setPlaylistName(playlist.name);
       setPlaylistOwner(playlist.owner);
       setPlaylistImage(playlist.image ?? null);
 
       const uniqueAlbums = tracks.reduce((acc: SpotifyAlbum[], item: SpotifyTrack) => {
-        const spotifyAlbum = item.track.album;
+        const spotifyAlbum = item?.track?.album;
+        if (!spotifyAlbum) {
+          return acc;
+        }
         const albumId = spotifyAlbum.id || spotifyAlbum.name || `album-${acc.length}`;
         if (!acc.some((existing) => existing.id === albumId)) {
           const details = albumDetails[albumId];
@@ -666,19 +806,38 @@ export default function TierMakerBoard() {
         rating: null,
         spotifyUrl: album.external_urls?.spotify ?? null,
         tier: 'unranked',
+        source: 'playlist',
+        sourcePlaylistId: sourceId,
       }));
+      // Deluxe editions and remasters land on the bench as one tile; they can be split later
+      const groups = groupAlbumEditions(mappedAlbums, (album) => album.name, (album) => album.artist);
+      const existingIds = new Set(Object.values(tiers).flat().map((album) => album.id));
+      const newGroups = groups.filter((group) => !existingIds.has(group.primary.id));
 
       // Append to existing albums, removing duplicates
       setTiers((prev) => {
-        const existingIds = new Set(Object.values(prev).flat().map((album) => album.id));
-        const uniqueNewAlbums = mappedAlbums.filter((album) => !existingIds.has(album.id));
+        const currentIds = new Set(Object.values(prev).flat().map((album) => album.id));
+        const uniqueNewAlbums = newGroups
+          .map((group) => group.primary)
+          .filter((album) => !currentIds.has(album.id));
         return {
           ...prev,
           unranked: [...prev.unranked, ...uniqueNewAlbums],
         };
       });
+      setMergedEditions((prev) => [
+        ...prev,
+        ...newGroups.filter((group) => group.editions.length > 0 && !prev.some((entry) => entry.key === group.key)),
+      ]);
 
       setPlaylistUrl(''); // Clear the input after loading
+      if (truncated) {
+        setPlaylistError(
+          totalAlbums != null
+            ? `Loaded the first ${tracks.length} of ${totalAlbums} albums. The remaining albums were skipped.`
+            : `Loaded the first ${tracks.length} of ${totalTracks} tracks. Albums from the remaining tracks were skipped.`
+        );
+      }
     } catch (err) {
       console.error(err);
       setPlaylistError('Unable to fetch playlist data. Double-check the link and try again.');
@@ -834,7 +993,7 @@ export default function TierMakerBoard() {
     link.click();
   };
 
-  const handleSave = async () => {
+  const handleSave = async (mode: 'new' | 'update') => {
     if (isSaving) {
       return;
     }
@@ -848,24 +1007,27 @@ export default function TierMakerBoard() {
       return;
     }
 
-    const tierPlaylistId = 'custom-tier-board';
+    const tierPlaylistId = resolveBoardPlaylistId(flattenedAlbums);
+    const isUpdate = mode === 'update' && Boolean(tierListId && editToken);
 
     setIsSaving(true);
     setSaveError(null);
 
     try {
-      const response = await fetch('/api/tier-lists', {
-        method: 'POST',
+      const response = await fetch(isUpdate ? `/api/tier-lists/${tierListId}` : '/api/tier-lists', {
+        method: isUpdate ? 'PUT' : 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(isUpdate && editToken ? { [EDIT_TOKEN_HEADER]: editToken } : {}),
         },
         body: JSON.stringify({
           playlistId: tierPlaylistId,
-          playlistName: playlistName || 'Custom Tier Board',
-          playlistOwner: playlistOwner || 'Unknown curator',
+          playlistName: playlistName.trim() || DEFAULT_TIER_LIST_NAME,
+          playlistOwner: playlistOwner.trim() || 'Unknown curator',
           playlistImage,
           imageDataUrl: imageUrl,
           tierMetadata,
+          ...(!isUpdate && remixSource ? { remixedFrom: remixSource.id } : {}),
           albums: flattenedAlbums.map((album) => ({
             id: album.id,
             name: album.name,
@@ -877,6 +1039,8 @@ export default function TierMakerBoard() {
             rating: album.rating,
             spotifyUrl: album.spotifyUrl,
             tier: album.tier,
+            source: album.source,
+            sourcePlaylistId: album.sourcePlaylistId,
           })),
         }),
       });
@@ -885,6 +1049,18 @@ export default function TierMakerBoard() {
         throw new Error('Failed to save tier list');
       }
 
+      if (!isUpdate) {
+        const created = await response.json();
+        rememberOwnedCreation({
+          kind: 'tier-list',
+          id: created.id,
+          editToken: created.editToken,
+          title: created.playlistName,
+          createdAt: created.createdAt,
+        });
+      }
+
+      setSavedAs(isUpdate ? 'update' : 'new');
       setSaveSuccess(true);
     } catch (err) {
       console.error('Failed to save tier list', err);
@@ -948,6 +1124,8 @@ export default function TierMakerBoard() {
               rating: null,
               spotifyUrl: album.spotifyUrl,
               tier: 'unranked',
+              source: 'search',
+              sourcePlaylistId: null,
             };
           });
 
@@ -969,6 +1147,25 @@ export default function TierMakerBoard() {
 
   return (
     <div className="space-y-6">
+      {loadingTierList && (
+        <div className="rounded-lg border border-gray-800 bg-gray-950/60 px-4 py-3 text-sm text-gray-300">
+          Loading saved tier list…
+        </div>
+      )}
+      {remixSource && (
+        <div className="rounded-lg border border-emerald-500/40 bg-emerald-950/20 px-4 py-3 text-sm text-emerald-100">
+          Remixing{' '}
+          <a href={`/tier-lists/${remixSource.id}`} className="font-semibold underline underline-offset-2">
+            {remixSource.playlistName}
+          </a>
+          . Give your version a title and save it as a new tier list.
+        </div>
+      )}
+      {tierListError && (
+        <div className="rounded border border-red-500 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+          {tierListError}
+        </div>
+      )}
       <div
         ref={boardRef}
         className="rounded-3xl border border-gray-800 bg-gradient-to-b from-gray-950 via-gray-900 to-gray-950 p-5 shadow-xl shadow-black/40"
@@ -1051,9 +1248,23 @@ export default function TierMakerBoard() {
                       playlistLoading,
                       playlistError,
                       onLoadPlaylist: loadPlaylistAlbums,
+                      artistOptions,
+                      setArtistOptions,
                     }}
                   />
                 </div>
+                <EditionGroupsPanel
+                  className="mb-4"
+                  groups={mergedEditions
+                    .filter((group) => Object.values(tiers).flat().some((album) => album.id === group.primary.id))
+                    .map((group) => ({
+                      key: group.key,
+                      name: group.primary.name,
+                      artist: group.primary.artist,
+                      editions: group.editions.map((edition) => edition.name),
+                    }))}
+                  onToggle={handleSplitEditions}
+                />
                 <UnrankedGrid albums={tiers.unranked} />
               </div>
             )}
@@ -1092,7 +1303,18 @@ export default function TierMakerBoard() {
             <div className="flex h-32 w-full items-center justify-center rounded-lg border border-dashed border-gray-600 bg-gray-800 text-sm uppercase tracking-wide text-gray-500">
               Advertisement Placeholder
             </div>
-            {saveSuccess && (
+            {saveSuccess && savedAs === 'update' && (
+              <div className="rounded border border-green-500 bg-green-500/10 px-3 py-2 text-sm text-green-200">
+                Tier list updated.{' '}
+                <a
+                  href={`/tier-lists/${tierListId}`}
+                  className="font-semibold text-green-300 underline underline-offset-2"
+                >
+                  View the tier list
+                </a>
+              </div>
+            )}
+            {saveSuccess && savedAs !== 'update' && (
               <div className="rounded border border-green-500 bg-green-500/10 px-3 py-2 text-sm text-green-200">
                 Tier list saved. Visit the{' '}
                 <a href="/reviews#tier-lists" className="font-semibold text-green-300 underline underline-offset-2">
@@ -1114,13 +1336,27 @@ export default function TierMakerBoard() {
               >
                 Close
               </button>
+              {tierListId && editToken && (
+                <button
+                  type="button"
+                  onClick={() => handleSave('update')}
+                  disabled={isSaving || saveSuccess}
+                  className="rounded bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-80"
+                >
+                  {saveSuccess && savedAs === 'update' ? 'Updated' : isSaving ? 'Saving…' : 'Update Tier List'}
+                </button>
+              )}
               <button
                 type="button"
-                onClick={handleSave}
+                onClick={() => handleSave('new')}
                 disabled={isSaving || saveSuccess}
-                className="rounded bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-80"
+                className={
+                  editToken
+                    ? 'rounded border border-gray-600 px-4 py-2 text-sm text-gray-200 transition-colors hover:border-emerald-400 hover:text-emerald-300 disabled:cursor-not-allowed disabled:opacity-80'
+                    : 'rounded bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-80'
+                }
               >
-                {saveSuccess ? 'Saved' : isSaving ? 'Saving…' : 'Save & Share'}
+                {saveSuccess && savedAs === 'new' ? 'Saved' : isSaving ? 'Saving…' : editToken ? 'Save as New' : 'Save & Share'}
               </button>
               <button
                 type="button"
@@ -1,8 +1,14 @@
 'use client';
 
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import TierMakerBoard from './TierMakerBoard';
 
-export default function TierMakerClient() {
+function InnerTierMaker() {
+  const searchParams = useSearchParams();
+  const tierListId = searchParams.get('tierListId');
+  const remixFromId = searchParams.get('from');
+
   return (
     <div className="mx-auto min-h-screen max-w-6xl bg-gradient-to-b from-gray-950 via-gray-900 to-black px-4 py-10 text-gray-100 sm:px-6 lg:px-10">
       <div className="mb-5 grid gap-3 rounded-2xl border border-gray-800/70 bg-gray-950/70 p-4 text-sm text-gray-200 sm:grid-cols-3">
@@ -20,7 +26,21 @@ export default function TierMakerClient() {
         </div>
       </div>
 
-      <TierMakerBoard />
+      <TierMakerBoard tierListId={tierListId} remixFromId={remixFromId} />
     </div>
   );
 }
+
+export default function TierMakerClient() {
+  return (
+    <Suspense
+      fallback={
+        <div className="mx-auto min-h-screen max-w-6xl bg-gray-900 px-4 py-16 text-center text-gray-200 sm:px-6 lg:px-10">
+          Loading tier maker…
+        </div>
+      }
+    >
+      <InnerTierMaker />
+    </Suspense>
+  );
+}
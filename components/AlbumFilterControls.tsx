@@ -0,0 +1,77 @@
+'use client';
+
+import type { ReviewAlbumFilters } from '@/types/review';
+
+interface AlbumFilterControlsProps {
+  value: ReviewAlbumFilters;
+  onChange: (next: ReviewAlbumFilters) => void;
+  years: number[];
+  showMinTracks: boolean;
+  shownCount: number;
+  totalCount: number;
+}
+
+export default function AlbumFilterControls({
+  value,
+  onChange,
+  years,
+  showMinTracks,
+  shownCount,
+  totalCount,
+}: AlbumFilterControlsProps) {
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-4 rounded-lg border border-gray-800 bg-gray-950/60 px-4 py-3 text-sm text-gray-300">
+      <span className="text-xs font-semibold uppercase tracking-wide text-gray-400">Filters</span>
+      <label className="inline-flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={value.excludeSingles}
+          onChange={(event) => onChange({ ...value, excludeSingles: event.target.checked })}
+          className="h-4 w-4 rounded border-gray-700 bg-gray-900 text-green-500 focus:ring-green-400"
+        />
+        <span>Hide singles</span>
+      </label>
+      <label className="inline-flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={value.excludeCompilations}
+          onChange={(event) => onChange({ ...value, excludeCompilations: event.target.checked })}
+          className="h-4 w-4 rounded border-gray-700 bg-gray-900 text-green-500 focus:ring-green-400"
+        />
+        <span>Hide compilations</span>
+      </label>
+      <label className="inline-flex items-center gap-2">
+        <span>Released in</span>
+        <select
+          value={value.releaseYear ?? ''}
+          onChange={(event) =>
+            onChange({ ...value, releaseYear: event.target.value ? Number(event.target.value) : null })
+          }
+          className="rounded border border-gray-700 bg-gray-900 px-2 py-1 text-gray-100"
+        >
+          <option value="">Any year</option>
+          {years.map((year) => (
+            <option key={year} value={year}>
+              {year}
+            </option>
+          ))}
+        </select>
+      </label>
+      {showMinTracks && (
+        <label className="inline-flex items-center gap-2">
+          <span>Min. tracks in playlist</span>
+          <input
+            type="number"
+            min={1}
+            value={value.minTracks}
+            onChange={(event) => onChange({ ...value, minTracks: Math.max(1, Math.floor(Number(event.target.value) || 1)) })}
+            className="w-16 rounded border border-gray-700 bg-gray-900 px-2 py-1 text-gray-100"
+          />
+        </label>
+      )}
+      <span className="ml-auto text-xs text-gray-400">
+        Showing {shownCount} of {totalCount} albums
+      </span>
+    </div>
+  );
+}
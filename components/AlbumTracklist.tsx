@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import type { SpotifyAlbumTrack, SpotifyAlbumTracksPage } from '@/utils/spotifyApi';
+
+interface AlbumTracklistProps {
+  albumId: string;
+  className?: string;
+}
+
+const PAGE_SIZE = 50;
+
+const formatDuration = (durationMs: number) => {
+  const totalSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export default function AlbumTracklist({ albumId, className }: AlbumTracklistProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [tracks, setTracks] = useState<SpotifyAlbumTrack[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTracks = async (offset: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(
+        `/api/spotify/albums/${encodeURIComponent(albumId)}/tracks?limit=${PAGE_SIZE}&offset=${offset}`
+      );
+      if (!response.ok) {
+        throw new Error('Failed to load tracklist');
+      }
+      const page: SpotifyAlbumTracksPage = await response.json();
+      setTracks((prev) => (offset === 0 ? page.items : [...prev, ...page.items]));
+      setTotal(page.total);
+      setHasMore(page.hasMore);
+    } catch (fetchError) {
+      console.error(fetchError);
+      setError('Unable to load the tracklist right now.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = () => {
+    const nextOpen = !isOpen;
+    setIsOpen(nextOpen);
+    if (nextOpen && total === null && !loading) {
+      loadTracks(0);
+    }
+  };
+
+  // Keep clicks and key presses from reaching drag handles the panel may sit inside
+  return (
+    <div
+      className={className}
+      onPointerDown={(event) => event.stopPropagation()}
+      onKeyDown={(event) => event.stopPropagation()}
+    >
+      <button
+        type="button"
+        onClick={handleToggle}
+        aria-expanded={isOpen}
+        className="inline-flex items-center gap-1 text-sm font-semibold text-gray-300 transition-colors hover:text-white"
+      >
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        <span>
+          {isOpen ? 'Hide tracklist' : 'Show tracklist'}
+          {total !== null ? ` (${total})` : ''}
+        </span>
+      </button>
+      {isOpen && (
+        <div className="mt-2 rounded border border-gray-700 bg-gray-900/80 p-2 text-sm">
+          {tracks.length > 0 && (
+            <ol className="max-h-64 space-y-1 overflow-y-auto pr-1">
+              {tracks.map((track) => (
+                <li key={track.id} className="flex items-center gap-2 text-gray-200">
+                  <span className="w-6 flex-shrink-0 text-right text-xs text-gray-500">
+                    {track.trackNumber}
+                  </span>
+                  <span className="min-w-0 flex-1 truncate">{track.name}</span>
+                  {track.explicit && (
+                    <span
+                      className="rounded-sm bg-gray-600 px-1 text-[10px] font-bold uppercase text-gray-100"
+                      title="Explicit"
+                    >
+                      E
+                    </span>
+                  )}
+                  <span className="flex-shrink-0 text-xs tabular-nums text-gray-400">
+                    {formatDuration(track.durationMs)}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+          {loading && (
+            <div className="flex items-center gap-2 px-1 py-2 text-xs text-gray-400">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span>Loading tracks…</span>
+            </div>
+          )}
+          {error && <p className="px-1 py-2 text-xs text-red-300">{error}</p>}
+          {!loading && !error && total === 0 && (
+            <p className="px-1 py-2 text-xs text-gray-400">No tracks found for this album.</p>
+          )}
+          {hasMore && !loading && (
+            <button
+              type="button"
+              onClick={() => loadTracks(tracks.length)}
+              className="mt-2 text-xs font-semibold text-green-300 transition-colors hover:text-green-200"
+            >
+              Load more tracks
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import type { ArtistAlbumGroup, ArtistSourceOptions } from '@/utils/spotify';
+
+interface ArtistSourceFiltersProps {
+  value: ArtistSourceOptions;
+  onChange: (next: ArtistSourceOptions) => void;
+  className?: string;
+}
+
+const groupLabels: { id: ArtistAlbumGroup; label: string }[] = [
+  { id: 'album', label: 'Albums' },
+  { id: 'single', label: 'Singles & EPs' },
+  { id: 'compilation', label: 'Compilations' },
+];
+
+export default function ArtistSourceFilters({ value, onChange, className }: ArtistSourceFiltersProps) {
+  const toggleGroup = (group: ArtistAlbumGroup, checked: boolean) => {
+    const groups = checked
+      ? groupLabels.map((entry) => entry.id).filter((id) => id === group || value.groups.includes(id))
+      : value.groups.filter((id) => id !== group);
+    onChange({ ...value, groups });
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-3 text-sm text-gray-300 ${className ?? ''}`}>
+      <span className="text-xs font-semibold uppercase tracking-wide text-gray-400">Discography</span>
+      {groupLabels.map((group) => (
+        <label key={group.id} className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={value.groups.includes(group.id)}
+            onChange={(event) => toggleGroup(group.id, event.target.checked)}
+            className="h-4 w-4 rounded border-gray-700 bg-gray-900 text-emerald-500 focus:ring-emerald-400"
+          />
+          <span>{group.label}</span>
+        </label>
+      ))}
+      <label className="inline-flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={value.dedupe}
+          onChange={(event) => onChange({ ...value, dedupe: event.target.checked })}
+          className="h-4 w-4 rounded border-gray-700 bg-gray-900 text-emerald-500 focus:ring-emerald-400"
+        />
+        <span>Hide regional duplicates</span>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { Layers } from 'lucide-react';
+
+export interface EditionGroupSummary {
+  key: string;
+  name: string;
+  artist: string;
+  editions: string[];
+  isSplit?: boolean;
+}
+
+interface EditionGroupsPanelProps {
+  groups: EditionGroupSummary[];
+  onToggle: (key: string) => void;
+  className?: string;
+}
+
+export default function EditionGroupsPanel({ groups, onToggle, className }: EditionGroupsPanelProps) {
+  if (groups.length === 0) {
+    return null;
+  }
+
+  return (
+    <details className={`rounded-lg border border-gray-800 bg-gray-950/60 px-4 py-3 text-sm text-gray-300 ${className ?? ''}`}>
+      <summary className="flex cursor-pointer items-center gap-2 text-xs font-semibold uppercase tracking-wide text-gray-400">
+        <Layers className="h-4 w-4" />
+        Merged editions ({groups.length})
+      </summary>
+      <ul className="mt-3 space-y-2">
+        {groups.map((group) => (
+          <li key={group.key} className="flex items-start gap-3">
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-gray-100">
+                {group.name} <span className="text-gray-400">– {group.artist}</span>
+              </p>
+              <p className="truncate text-xs text-gray-500">
+                {group.isSplit ? 'Listed separately: ' : 'Also covers: '}
+                {group.editions.join(', ')}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => onToggle(group.key)}
+              className="flex-shrink-0 rounded border border-gray-700 px-2 py-1 text-xs text-gray-300 transition-colors hover:border-emerald-400 hover:text-emerald-300"
+            >
+              {group.isSplit ? 'Merge' : 'Split'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
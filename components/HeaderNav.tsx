@@ -4,12 +4,14 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import { Menu, X } from 'lucide-react';
+import SearchBox from './SearchBox';
 
 const navLinks = [
   { href: '/blog', label: 'Blog' },
   { href: '/', label: 'Reviews' },
   { href: '/tier-maker', label: 'Tier Maker' },
   { href: '/review-builder', label: 'Review Builder' },
+  { href: '/my-creations', label: 'My Creations' },
 ];
 
 export function HeaderNav() {
@@ -49,9 +51,11 @@ export function HeaderNav() {
             </Link>
           );
         })}
+        {pathname !== '/search' && <SearchBox className="w-40 lg:w-56" />}
       </nav>
       {isOpen && (
-        <div className="absolute right-0 top-12 w-52 rounded-lg border border-gray-700 bg-gray-900/95 p-3 shadow-xl md:hidden">
+        <div className="absolute right-0 top-12 w-64 space-y-3 rounded-lg border border-gray-700 bg-gray-900/95 p-3 shadow-xl md:hidden">
+          {pathname !== '/search' && <SearchBox />}
           <ul className="space-y-2 text-sm text-gray-200">
             {navLinks.map((link) => {
               const isActive = pathname === link.href;
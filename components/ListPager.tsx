@@ -0,0 +1,35 @@
+import Link from 'next/link';
+
+type ListPagerProps = {
+  /** Link back to the first page; omitted on the first page itself. */
+  newestHref: string | null;
+  /** Link to the next (older) page; omitted when there is none. */
+  olderHref: string | null;
+  className?: string;
+};
+
+const linkClass =
+  'inline-flex items-center rounded border border-gray-700 px-3 py-1.5 text-xs font-medium text-gray-200 transition-colors hover:border-emerald-400 hover:text-emerald-200';
+
+export default function ListPager({ newestHref, olderHref, className = '' }: ListPagerProps) {
+  if (!newestHref && !olderHref) {
+    return null;
+  }
+
+  return (
+    <nav className={`flex items-center justify-between gap-3 ${className}`} aria-label="Pagination">
+      {newestHref ? (
+        <Link href={newestHref} className={linkClass}>
+          ← Newest
+        </Link>
+      ) : (
+        <span />
+      )}
+      {olderHref && (
+        <Link href={olderHref} className={linkClass}>
+          Older →
+        </Link>
+      )}
+    </nav>
+  );
+}
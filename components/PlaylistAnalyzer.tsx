@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import Image from 'next/image';
 import {
   DndContext,
@@ -19,9 +19,17 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { toJpeg } from 'html-to-image';
-import { Star, StarHalf, Trash2, ExternalLink, Sparkles } from 'lucide-react';
-import type { StoredAlbum, ReviewMode } from '@/types/review';
+import { Star, StarHalf, Trash2, ExternalLink, Sparkles, ListMusic, ArrowDownWideNarrow } from 'lucide-react';
+import type { StoredAlbum, ReviewMode, ReviewAlbumFilters } from '@/types/review';
 import { getRankDecoration } from '@/components/rankDecorations';
+import AlbumTracklist from '@/components/AlbumTracklist';
+import SpotifyPlaylistExport from '@/components/SpotifyPlaylistExport';
+import AlbumFilterControls from '@/components/AlbumFilterControls';
+import EditionGroupsPanel from '@/components/EditionGroupsPanel';
+import { isSpotifyId, type ArtistSourceOptions, type SpotifyLinkKind } from '@/utils/spotify';
+import { defaultReviewFilters, getReleaseYear, matchesReviewFilters } from '@/utils/reviewFilters';
+import { groupAlbumEditions } from '@/utils/albumEditions';
+import { EDIT_TOKEN_HEADER, getEditToken, rememberOwnedCreation } from '@/utils/ownedCreations';
 
 const sanitizeLabel = (value?: string | null) =>
   value && value.trim().length > 0 ? value.trim() : null;
@@ -36,6 +44,7 @@ interface SpotifyAlbum {
   release_date: string;
   external_urls?: { spotify?: string };
   label?: string | null;
+  album_type?: string;
 }
 
 interface Album extends SpotifyAlbum {
@@ -43,8 +52,31 @@ interface Album extends SpotifyAlbum {
   rating: number | null;
   spotifyUrl: string | null;
   label?: string | null;
+  albumType?: string | null;
+  // How many of the source playlist's tracks come from this album, and their combined length
+  playlistTrackCount?: number;
+  playlistDurationMs?: number;
+  // Other editions (deluxe, remaster, …) folded into this entry
+  editions?: Album[];
 }
 
+const albumArtistName = (album: SpotifyAlbum) => album.artists?.[0]?.name ?? '';
+
+const sumOptional = (values: (number | undefined)[]) =>
+  values.some((value) => value != null) ? values.reduce<number>((sum, value) => sum + (value ?? 0), 0) : undefined;
+
+const formatPresence = (album: Album) => {
+  if (album.playlistTrackCount == null) {
+    return null;
+  }
+  const count = `${album.playlistTrackCount} track${album.playlistTrackCount === 1 ? '' : 's'} in playlist`;
+  if (!album.playlistDurationMs) {
+    return count;
+  }
+  const minutes = Math.max(1, Math.round(album.playlistDurationMs / 60000));
+  return `${count} · ${minutes} min`;
+};
+
 interface SortableAlbumItemProps {
   album: Album;
   index: number;
@@ -159,6 +191,7 @@ function SortableAlbumItem({
     setHoverRating(nextRating);
   };
   const displayedRating = isRatingLocked ? album.rating ?? 0 : hoverRating ?? album.rating ?? 0;
+  const presence = formatPresence(album);
 
   return (
     <div
@@ -198,6 +231,12 @@ function SortableAlbumItem({
             <p className="text-sm text-gray-500">
               Release Date: {new Date(album.release_date).toLocaleDateString()}
             </p>
+            {presence && <p className="text-sm text-gray-500">{presence}</p>}
+            {album.editions && album.editions.length > 0 && (
+              <p className="text-sm text-gray-500">
+                Includes {album.editions.map((edition) => edition.name).join(', ')}
+              </p>
+            )}
             {album.spotifyUrl && !hideSpotifyLinks && (
               <a
                 href={album.spotifyUrl}
@@ -209,6 +248,9 @@ function SortableAlbumItem({
                 <ExternalLink className="h-4 w-4" />
               </a>
             )}
+            {!hideSpotifyLinks && isSpotifyId(album.id) && (
+              <AlbumTracklist albumId={album.id} className="mt-3" />
+            )}
           </div>
         </div>
         {(showNotes || showRating) && (
@@ -331,6 +373,7 @@ function SortablePlainAlbumItem({
 
   const artist = album.artists[0]?.name?.trim() || 'Unknown Artist';
   const label = sanitizeLabel(album.label) ?? 'Unknown Label';
+  const presence = formatPresence(album);
   let releaseDate = 'Unknown date';
   if (album.release_date) {
     try {
@@ -375,6 +418,7 @@ function SortablePlainAlbumItem({
           <p className="truncate text-xs text-gray-400">{artist}</p>
           <p className="text-xs text-gray-500">Released {releaseDate}</p>
           <p className="truncate text-xs text-gray-500">Label · {label}</p>
+          {presence && <p className="truncate text-xs text-gray-500">{presence}</p>}
         </div>
       </div>
       {showDeleteButton && (
@@ -502,7 +546,8 @@ function EditableText({
 interface SpotifyTrack {
   track: {
     album: SpotifyAlbum;
-  };
+    duration_ms?: number;
+  } | null;
 }
 
 interface PlaylistAnalyzerProps {
@@ -511,6 +556,9 @@ interface PlaylistAnalyzerProps {
   onInputModeChange: (mode: InputMode) => void;
   initialData?: InitialReviewData;
   importedAlbums?: SpotifyAlbum[];
+  artistOptions?: ArtistSourceOptions;
+  // Saved review being edited; enables saving back to it instead of creating a copy
+  reviewId?: string;
 }
 
 export default function PlaylistAnalyzer({
@@ -519,8 +567,12 @@ export default function PlaylistAnalyzer({
   onInputModeChange,
   initialData,
   importedAlbums,
+  artistOptions,
+  reviewId,
 }: PlaylistAnalyzerProps) {
-  const isRatingLocked = Boolean(initialData);
+  // Ratings on someone else's review stay fixed; the owner (holding its edit token) may change them
+  const [editToken, setEditToken] = useState<string | null>(null);
+  const isRatingLocked = Boolean(initialData) && !editToken;
   const [albums, setAlbums] = useState<Album[]>(() => {
     if (initialData) {
       return initialData.albums.map(mapStoredAlbumToAlbum);
@@ -554,7 +606,20 @@ export default function PlaylistAnalyzer({
   const [isSavingReview, setIsSavingReview] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  const [savedAs, setSavedAs] = useState<'new' | 'update' | null>(null);
+
+  useEffect(() => {
+    setEditToken(reviewId ? getEditToken('review', reviewId) : null);
+  }, [reviewId]);
   const [hideRankDecorations, setHideRankDecorations] = useState(importedAlbums ? true : false);
+  const [trackSummary, setTrackSummary] = useState<{ loaded: number; total: number; unit: 'tracks' | 'albums' } | null>(null);
+  const [showPlaylistExport, setShowPlaylistExport] = useState(false);
+  // Every album the loaded source produced; `albums` is the filtered, user-edited subset
+  const [sourceAlbums, setSourceAlbums] = useState<Album[]>([]);
+  const [sourceKind, setSourceKind] = useState<SpotifyLinkKind | null>(null);
+  const [filters, setFilters] = useState<ReviewAlbumFilters>(defaultReviewFilters);
+  const [removedAlbumIds, setRemovedAlbumIds] = useState<string[]>([]);
+  const [splitEditionKeys, setSplitEditionKeys] = useState<string[]>([]);
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -609,28 +674,60 @@ export default function PlaylistAnalyzer({
         setSaveError(null);
         setIsSavingReview(false);
         setIsPreparingDownload(false);
+        setTrackSummary(null);
+        setSourceAlbums([]);
+        setRemovedAlbumIds([]);
+        setSplitEditionKeys([]);
 
         const res = await fetch('/api/spotify/playlist', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ url: playlistId }),
+          body: JSON.stringify({ url: playlistId, artistOptions }),
         });
+        if (res.status === 404) {
+          // Not-found responses explain that private playlists need a Spotify sign-in
+          const body = await res.json().catch(() => null);
+          if (!isCancelled && body?.error) {
+            setError(body.error);
+            return;
+          }
+        }
         if (!res.ok) throw new Error('Failed to load playlist');
-        const { tracks, playlist, albumDetails } = await res.json();
+        const { source, tracks, playlist, albumDetails, totalTracks, totalAlbums, truncated } = await res.json();
 
         if (isCancelled) {
           return;
         }
 
+        setTrackSummary(
+          truncated
+            ? totalAlbums != null
+              ? { loaded: tracks.length, total: totalAlbums, unit: 'albums' }
+              : { loaded: tracks.length, total: totalTracks, unit: 'tracks' }
+            : null
+        );
+
         setPlaylistName(playlist.name);
         setPlaylistOwner(playlist.owner);
         setPlaylistImage(playlist.image ?? null);
+        setSourceKind(source?.kind ?? null);
 
+        // Album and artist sources list each album once, so presence only means something for playlists
+        const isPlaylistSource = source?.kind === 'playlist';
         const uniqueAlbums = tracks.reduce((acc: Album[], item: SpotifyTrack) => {
-          const spotifyAlbum = item.track.album;
+          const spotifyAlbum = item?.track?.album;
+          if (!spotifyAlbum) {
+            return acc;
+          }
           const albumId = spotifyAlbum.id || spotifyAlbum.name || `album-${acc.length}`;
-          const alreadyExists = acc.some((existing) => existing.id === albumId);
-          if (!alreadyExists) {
+          const trackDuration = item?.track?.duration_ms ?? 0;
+          const existing = acc.find((album) => album.id === albumId);
+          if (existing) {
+            if (isPlaylistSource) {
+              existing.playlistTrackCount = (existing.playlistTrackCount ?? 0) + 1;
+              existing.playlistDurationMs = (existing.playlistDurationMs ?? 0) + trackDuration;
+            }
+          } else {
             const details = albumDetails[albumId];
             const mergedImages =
               spotifyAlbum.images && spotifyAlbum.images.length > 0
@@ -652,15 +749,19 @@ export default function PlaylistAnalyzer({
               images: mergedImages,
               release_date: mergedReleaseDate,
               external_urls: spotifyAlbum.external_urls ?? details?.external_urls,
+              albumType: spotifyAlbum.album_type ?? details?.album_type ?? null,
+              playlistTrackCount: isPlaylistSource ? 1 : undefined,
+              playlistDurationMs: isPlaylistSource ? trackDuration : undefined,
             });
           }
           return acc;
         }, []);
 
-        setAlbums(uniqueAlbums);
+        setAlbums([]);
+        setSourceAlbums(uniqueAlbums);
       } catch {
         if (!isCancelled) {
-          setError('Wrong playlist URL. Please ensure to paste a playlist URL');
+          setError('Unable to load that Spotify link. Please paste a playlist, album, artist or track URL.');
         }
       } finally {
         if (!isCancelled) {
@@ -674,7 +775,82 @@ export default function PlaylistAnalyzer({
     return () => {
       isCancelled = true;
     };
-  }, [playlistId, initialData, importedAlbums]);
+  }, [playlistId, initialData, importedAlbums, artistOptions]);
+
+  const editionGroups = useMemo(
+    () => groupAlbumEditions(sourceAlbums, (album) => album.name, albumArtistName),
+    [sourceAlbums]
+  );
+
+  // Source albums with editions folded into one entry, unless the user split that group
+  const mergedSourceAlbums = useMemo(
+    () =>
+      editionGroups.flatMap((group) => {
+        if (group.editions.length === 0 || splitEditionKeys.includes(group.key)) {
+          return [group.primary, ...group.editions];
+        }
+        const members = [group.primary, ...group.editions];
+        return [
+          {
+            ...group.primary,
+            editions: group.editions,
+            playlistTrackCount: sumOptional(members.map((album) => album.playlistTrackCount)),
+            playlistDurationMs: sumOptional(members.map((album) => album.playlistDurationMs)),
+          },
+        ];
+      }),
+    [editionGroups, splitEditionKeys]
+  );
+
+  useEffect(() => {
+    if (mergedSourceAlbums.length === 0) {
+      return;
+    }
+    // Keep the user's order, notes and ratings for albums that still pass. Newly included albums
+    // go right after another edition of the same record when there is one, otherwise last.
+    setAlbums((prevAlbums) => {
+      const included = mergedSourceAlbums.filter(
+        (album) => !removedAlbumIds.includes(album.id) && matchesReviewFilters(album, filters)
+      );
+      const includedById = new Map(included.map((album) => [album.id, album]));
+      const next = prevAlbums
+        .filter((album) => includedById.has(album.id))
+        .map((album) => ({ ...includedById.get(album.id)!, notes: album.notes, rating: album.rating }));
+      const keptIds = new Set(next.map((album) => album.id));
+      const groupKeyById = new Map(
+        editionGroups.flatMap((group) =>
+          [group.primary, ...group.editions].map((album) => [album.id, group.key] as const)
+        )
+      );
+      included
+        .filter((album) => !keptIds.has(album.id))
+        .forEach((album) => {
+          const groupKey = groupKeyById.get(album.id);
+          const siblingIndex = next.reduce(
+            (last, candidate, index) => (groupKeyById.get(candidate.id) === groupKey ? index : last),
+            -1
+          );
+          if (siblingIndex >= 0) {
+            next.splice(siblingIndex + 1, 0, album);
+          } else {
+            next.push(album);
+          }
+        });
+      return next;
+    });
+  }, [mergedSourceAlbums, editionGroups, filters, removedAlbumIds]);
+
+  const handleToggleEditionGroup = (key: string) => {
+    setSplitEditionKeys((prev) => (prev.includes(key) ? prev.filter((entry) => entry !== key) : [...prev, key]));
+  };
+
+  const sourceYears = Array.from(
+    new Set(
+      sourceAlbums
+        .map((album) => getReleaseYear(album.release_date))
+        .filter((year): year is number => year != null)
+    )
+  ).sort((a, b) => b - a);
 
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
@@ -707,8 +883,20 @@ export default function PlaylistAnalyzer({
     );
   };
 
+  const handleRankByPresence = () => {
+    // Array.prototype.sort is stable, so ties keep their current relative order
+    setAlbums((prevAlbums) =>
+      [...prevAlbums].sort(
+        (a, b) =>
+          (b.playlistTrackCount ?? 0) - (a.playlistTrackCount ?? 0) ||
+          (b.playlistDurationMs ?? 0) - (a.playlistDurationMs ?? 0)
+      )
+    );
+  };
+
   const handleDeleteAlbum = (albumId: string) => {
     setAlbums(prevAlbums => prevAlbums.filter(album => album.id !== albumId));
+    setRemovedAlbumIds((prev) => [...prev, albumId]);
   };
 
   const generateImage = async () => {
@@ -745,6 +933,7 @@ export default function PlaylistAnalyzer({
 
   const handleCloseModal = () => {
     setShowDownloadModal(false);
+    setShowPlaylistExport(false);
     setSaveError(null);
     setSaveSuccess(false);
   };
@@ -753,7 +942,14 @@ export default function PlaylistAnalyzer({
     await generateImage();
   };
 
-  const handleSaveReview = async () => {
+  const buildPlaylistDescription = () => {
+    const ranking = albums
+      .map((album, index) => `${index + 1}. ${album.name}${album.rating != null ? ` (${album.rating}★)` : ''}`)
+      .join(', ');
+    return `Ranked review of ${playlistName}${playlistOwner ? ` by ${playlistOwner}` : ''}: ${ranking}`;
+  };
+
+  const handleSaveReview = async (mode: 'new' | 'update') => {
     if (isSavingReview || saveSuccess) {
       return;
     }
@@ -777,11 +973,16 @@ export default function PlaylistAnalyzer({
       spotifyUrl: album.spotifyUrl,
     }));
 
+    const isUpdate = mode === 'update' && Boolean(reviewId && editToken);
+    const filterSettings = sourceAlbums.length > 0 ? filters : null;
+
     try {
-      const response = await fetch('/api/reviews', {
-        method: 'POST',
+      // Updates are partial so filters recorded at creation survive edits made without reloading the source
+      const response = await fetch(isUpdate ? `/api/reviews/${reviewId}` : '/api/reviews', {
+        method: isUpdate ? 'PATCH' : 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(isUpdate && editToken ? { [EDIT_TOKEN_HEADER]: editToken } : {}),
         },
         body: JSON.stringify({
           playlistId,
@@ -791,6 +992,7 @@ export default function PlaylistAnalyzer({
           albums: serializedAlbums,
           imageDataUrl: generatedImageUrl,
           reviewMode: inputMode,
+          ...(!isUpdate || filterSettings ? { filters: filterSettings } : {}),
         }),
       });
 
@@ -798,6 +1000,18 @@ export default function PlaylistAnalyzer({
         throw new Error('Failed to save review.');
       }
 
+      if (!isUpdate) {
+        const created = await response.json();
+        rememberOwnedCreation({
+          kind: 'review',
+          id: created.id,
+          editToken: created.editToken,
+          title: created.playlistName,
+          createdAt: created.createdAt,
+        });
+      }
+
+      setSavedAs(isUpdate ? 'update' : 'new');
       setSaveSuccess(true);
     } catch (error) {
       console.error('Failed to save review', error);
@@ -857,8 +1071,50 @@ export default function PlaylistAnalyzer({
             />
             <span>Unordered List</span>
           </label>
+          {sourceKind === 'playlist' && sourceAlbums.length > 0 && (
+            <button
+              type="button"
+              onClick={handleRankByPresence}
+              className="ml-4 inline-flex items-center gap-2 rounded-lg border border-gray-700 bg-gray-900 px-3 py-1.5 text-sm text-gray-300 transition-colors hover:border-green-400 hover:text-white"
+              title="Order albums by how many of their tracks are in the playlist"
+            >
+              <ArrowDownWideNarrow className="h-4 w-4" />
+              Rank by presence
+            </button>
+          )}
         </div>
       </div>
+      {trackSummary && (
+        <div className="mb-4 rounded border border-amber-500/40 bg-amber-950/20 px-4 py-3 text-sm text-amber-100">
+          Loaded the first {trackSummary.loaded} of {trackSummary.total} {trackSummary.unit}.{' '}
+          {trackSummary.unit === 'albums'
+            ? 'The remaining albums are not included.'
+            : 'Albums from the remaining tracks are not included.'}
+        </div>
+      )}
+      {sourceAlbums.length > 0 && (
+        <AlbumFilterControls
+          value={filters}
+          onChange={setFilters}
+          years={sourceYears}
+          showMinTracks={sourceKind === 'playlist'}
+          shownCount={albums.length}
+          totalCount={mergedSourceAlbums.length}
+        />
+      )}
+      <EditionGroupsPanel
+        className="mb-6"
+        groups={editionGroups
+          .filter((group) => group.editions.length > 0)
+          .map((group) => ({
+            key: group.key,
+            name: group.primary.name,
+            artist: albumArtistName(group.primary),
+            editions: group.editions.map((edition) => edition.name),
+            isSplit: splitEditionKeys.includes(group.key),
+          }))}
+        onToggle={handleToggleEditionGroup}
+      />
       <div ref={contentRef} className="p-3 sm:p-4 lg:p-6">
         <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
           <div className="flex items-center gap-4">
@@ -965,7 +1221,18 @@ export default function PlaylistAnalyzer({
             <div className="flex h-32 w-full items-center justify-center rounded-lg border border-dashed border-gray-600 bg-gray-800 text-sm uppercase tracking-wide text-gray-500">
               Advertisement Placeholder
             </div>
-            {saveSuccess && (
+            {saveSuccess && savedAs === 'update' && (
+              <div className="rounded border border-green-500 bg-green-500/10 px-3 py-2 text-sm text-green-200">
+                Review updated.{' '}
+                <a
+                  href={`/reviews/${reviewId}`}
+                  className="font-semibold text-green-300 underline underline-offset-2"
+                >
+                  View the review
+                </a>
+              </div>
+            )}
+            {saveSuccess && savedAs !== 'update' && (
               <div className="rounded border border-green-500 bg-green-500/10 px-3 py-2 text-sm text-green-200">
                 Review saved. Visit the{' '}
                 <a href="/reviews" className="font-semibold text-green-300 underline underline-offset-2">
@@ -979,6 +1246,17 @@ export default function PlaylistAnalyzer({
                 {saveError}
               </div>
             )}
+            {showPlaylistExport && (
+              <SpotifyPlaylistExport
+                albums={albums.map((album) => ({
+                  id: album.id,
+                  name: album.name,
+                  artist: album.artists?.[0]?.name ?? '',
+                }))}
+                defaultName={`${playlistName} – Ranked`}
+                description={buildPlaylistDescription()}
+              />
+            )}
             <div className="flex flex-wrap justify-end gap-2">
               <button
                 type="button"
@@ -987,13 +1265,36 @@ export default function PlaylistAnalyzer({
               >
                 Close
               </button>
+              {reviewId && editToken && (
+                <button
+                  type="button"
+                  onClick={() => handleSaveReview('update')}
+                  disabled={isSavingReview || saveSuccess || albums.length === 0}
+                  className="rounded bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-80"
+                >
+                  {saveSuccess && savedAs === 'update' ? 'Updated' : isSavingReview ? 'Saving…' : 'Update Review'}
+                </button>
+              )}
               <button
                 type="button"
-                onClick={handleSaveReview}
+                onClick={() => handleSaveReview('new')}
                 disabled={isSavingReview || saveSuccess || albums.length === 0}
-                className="rounded bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-80"
+                className={
+                  editToken
+                    ? 'rounded border border-gray-600 px-4 py-2 text-sm text-gray-200 transition-colors hover:border-emerald-400 hover:text-emerald-300 disabled:cursor-not-allowed disabled:opacity-80'
+                    : 'rounded bg-emerald-500 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-80'
+                }
+              >
+                {saveSuccess && savedAs === 'new' ? 'Saved' : isSavingReview ? 'Saving…' : editToken ? 'Save as New' : 'Save & Share'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowPlaylistExport((prev) => !prev)}
+                disabled={albums.length === 0}
+                className="inline-flex items-center gap-1 rounded border border-gray-600 px-4 py-2 text-sm text-gray-200 transition-colors hover:border-emerald-400 hover:text-emerald-300 disabled:cursor-not-allowed disabled:opacity-70"
               >
-                {saveSuccess ? 'Saved' : isSavingReview ? 'Saving…' : 'Save & Share'}
+                <ListMusic className="h-4 w-4" />
+                Create Playlist
               </button>
               <button
                 type="button"
@@ -2,10 +2,13 @@ import Image from 'next/image';
 import { Star, StarHalf, ExternalLink } from 'lucide-react';
 import type { StoredAlbum } from '@/types/review';
 import { getRankDecoration } from '@/components/rankDecorations';
+import AlbumTracklist from '@/components/AlbumTracklist';
+import { isSpotifyId } from '@/utils/spotify';
 
 interface ReviewAlbumCardProps {
   album: StoredAlbum;
   index: number;
+  hideTracklist?: boolean;
 }
 
 const formatRating = (rating: number | null) => {
@@ -33,7 +36,7 @@ const renderRatingStars = (rating: number | null) => {
   });
 };
 
-export default function ReviewAlbumCard({ album, index }: ReviewAlbumCardProps) {
+export default function ReviewAlbumCard({ album, index, hideTracklist }: ReviewAlbumCardProps) {
   const rankDecoration = getRankDecoration(index);
   const badge = rankDecoration?.badge;
   const BadgeIcon = badge?.icon;
@@ -88,6 +91,9 @@ export default function ReviewAlbumCard({ album, index }: ReviewAlbumCardProps)
                 <ExternalLink className="h-4 w-4" />
               </a>
             )}
+            {!hideTracklist && isSpotifyId(album.id) && (
+              <AlbumTracklist albumId={album.id} className="mt-3" />
+            )}
           </div>
         </div>
         <div className="flex w-full flex-col gap-4 lg:w-1/2">
@@ -13,6 +13,7 @@ interface ReviewAlbumsDisplayProps {
   plainViewRef: RefObject<HTMLDivElement>;
   detailsViewRef: RefObject<HTMLDivElement>;
   hideSpotifyLinks?: boolean;
+  hideTracklists?: boolean;
 }
 
 const fallbackText = (value: string | null | undefined, fallback: string) =>
@@ -73,6 +74,7 @@ export default function ReviewAlbumsDisplay({
   plainViewRef,
   detailsViewRef,
   hideSpotifyLinks,
+  hideTracklists,
 }: ReviewAlbumsDisplayProps) {
   const buttonClass = (isActive: boolean) =>
     `inline-flex items-center gap-2 rounded-md px-3 py-2 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-400 ${
@@ -120,7 +122,12 @@ export default function ReviewAlbumsDisplay({
       {!isPlainView && (
         <div className="space-y-4" ref={detailsViewRef}>
           {albums.map((album, index) => (
-            <ReviewAlbumCard key={album.id} album={album} index={index} />
+            <ReviewAlbumCard
+              key={album.id}
+              album={album}
+              index={index}
+              hideTracklist={hideTracklists}
+            />
           ))}
         </div>
       )}
@@ -7,6 +7,7 @@ import { toJpeg } from 'html-to-image';
 import { Share2 } from 'lucide-react';
 import type { StoredReview } from '@/types/review';
 import ReviewAlbumsDisplay from '@/components/ReviewAlbumsDisplay';
+import { describeReviewFilters } from '@/utils/reviewFilters';
 
 interface ReviewDetailClientProps {
   review: StoredReview;
@@ -167,6 +168,9 @@ export default function ReviewDetailClient({ review }: ReviewDetailClientProps)
               <p className="text-sm text-gray-400">
                 Curated by {review.playlistOwner || 'Unknown creator'} • Shared {formatDate(review.createdAt)}
               </p>
+              {review.filters && (
+                <p className="mt-1 text-xs text-gray-500">Filtered: {describeReviewFilters(review.filters)}</p>
+              )}
             </div>
           </div>
           <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-end">
@@ -261,6 +265,7 @@ export default function ReviewDetailClient({ review }: ReviewDetailClientProps)
           plainViewRef={plainViewRef}
           detailsViewRef={detailsViewRef}
           hideSpotifyLinks={isDownloading && activeDownloadMode === 'plain'}
+          hideTracklists={isDownloading}
         />
       </section>
     </div>
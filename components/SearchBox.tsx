@@ -0,0 +1,26 @@
+import { Search } from 'lucide-react';
+
+type SearchBoxProps = {
+  defaultValue?: string;
+  className?: string;
+};
+
+/** Plain GET form to the results page, so it also works before hydration. */
+export default function SearchBox({ defaultValue = '', className = '' }: SearchBoxProps) {
+  return (
+    <form action="/search" method="get" role="search" className={`relative ${className}`}>
+      <Search className="pointer-events-none absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-500" />
+      <input
+        type="search"
+        name="q"
+        defaultValue={defaultValue}
+        minLength={2}
+        maxLength={100}
+        required
+        placeholder="Search playlists, albums, artists…"
+        aria-label="Search reviews, tier lists and albums"
+        className="w-full rounded border border-gray-700 bg-gray-900/70 py-1.5 pl-8 pr-3 text-sm text-gray-100 placeholder:text-gray-500 focus:border-emerald-400 focus:outline-none"
+      />
+    </form>
+  );
+}
@@ -0,0 +1,270 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CheckCircle2, ExternalLink, Loader2, LogIn, MinusCircle, XCircle } from 'lucide-react';
+import { isSpotifyId } from '@/utils/spotify';
+import { isSpotifyLoginMessage, openSpotifyLoginPopup } from '@/utils/spotifyLoginPopup';
+
+export interface PlaylistExportAlbum {
+  id: string;
+  name: string;
+  artist: string;
+}
+
+interface SpotifyPlaylistExportProps {
+  albums: PlaylistExportAlbum[];
+  defaultName: string;
+  description: string;
+}
+
+type AlbumExportStatus = {
+  state: 'pending' | 'adding' | 'added' | 'failed' | 'skipped';
+  added?: number;
+};
+
+const trackOptions: { value: number | null; label: string }[] = [
+  { value: null, label: 'All tracks' },
+  { value: 1, label: 'Top track' },
+  { value: 3, label: 'Top 3 tracks' },
+  { value: 5, label: 'Top 5 tracks' },
+];
+
+export default function SpotifyPlaylistExport({ albums, defaultName, description }: SpotifyPlaylistExportProps) {
+  const [sessionState, setSessionState] = useState<'loading' | 'disabled' | 'signed-out' | 'signed-in'>('loading');
+  const [name, setName] = useState(defaultName);
+  const [tracksPerAlbum, setTracksPerAlbum] = useState<number | null>(null);
+  const [isPublic, setIsPublic] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [statuses, setStatuses] = useState<Record<string, AlbumExportStatus>>({});
+  const [playlistUrl, setPlaylistUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [needsReauth, setNeedsReauth] = useState(false);
+
+  const [loginError, setLoginError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const fetchSession = async () => {
+      try {
+        const response = await fetch('/api/auth/spotify/session');
+        const data = response.ok ? await response.json() : null;
+        if (isCancelled) return;
+        setSessionState(!data?.enabled ? 'disabled' : data.user ? 'signed-in' : 'signed-out');
+      } catch (sessionError) {
+        console.error('Failed to read Spotify session', sessionError);
+        if (!isCancelled) setSessionState('disabled');
+      }
+    };
+
+    // The sign-in popup reports back here, so the unsaved ranking on this page survives the round trip
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || !isSpotifyLoginMessage(event.data)) {
+        return;
+      }
+      if (event.data.ok) {
+        setLoginError(null);
+        setNeedsReauth(false);
+        setError(null);
+        fetchSession();
+      } else {
+        setLoginError('Spotify sign-in did not complete. Try again.');
+      }
+    };
+
+    fetchSession();
+    window.addEventListener('message', handleMessage);
+
+    return () => {
+      isCancelled = true;
+      window.removeEventListener('message', handleMessage);
+    };
+  }, []);
+
+  const handleLogin = () => {
+    setLoginError(
+      openSpotifyLoginPopup() ? null : 'Allow pop-ups for this site to sign in with Spotify without leaving this page.'
+    );
+  };
+
+  const updateStatus = (albumId: string, status: AlbumExportStatus) =>
+    setStatuses((prev) => ({ ...prev, [albumId]: status }));
+
+  const handleExport = async () => {
+    if (isExporting) return;
+
+    setIsExporting(true);
+    setError(null);
+    setNeedsReauth(false);
+    setPlaylistUrl(null);
+    setStatuses(Object.fromEntries(albums.map((album) => [album.id, { state: 'pending' }])));
+
+    try {
+      const createResponse = await fetch('/api/spotify/me/playlists', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, description, isPublic }),
+      });
+      const created = await createResponse.json().catch(() => null);
+      if (!createResponse.ok) {
+        setNeedsReauth(Boolean(created?.reauth) || createResponse.status === 401);
+        throw new Error(created?.error ?? 'Failed to create the Spotify playlist.');
+      }
+      setPlaylistUrl(created.url ?? null);
+
+      // Albums are added one at a time so the playlist follows the ranking
+      for (const album of albums) {
+        if (!isSpotifyId(album.id)) {
+          updateStatus(album.id, { state: 'skipped' });
+          continue;
+        }
+        updateStatus(album.id, { state: 'adding' });
+        try {
+          const response = await fetch(`/api/spotify/me/playlists/${created.id}/albums`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ albumId: album.id, tracksPerAlbum }),
+          });
+          if (!response.ok) {
+            throw new Error('Failed to add album');
+          }
+          const result = await response.json();
+          updateStatus(album.id, { state: 'added', added: result.added });
+        } catch (albumError) {
+          console.error(`Failed to add ${album.name} to the playlist`, albumError);
+          updateStatus(album.id, { state: 'failed' });
+        }
+      }
+    } catch (exportError) {
+      console.error('Failed to create Spotify playlist', exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Failed to create the Spotify playlist.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (sessionState === 'loading' || sessionState === 'disabled') {
+    return null;
+  }
+
+  if (sessionState === 'signed-out') {
+    return (
+      <div className="flex flex-wrap items-center gap-3 rounded border border-gray-700 bg-gray-800/60 px-3 py-2 text-sm text-gray-300">
+        <span>Sign in to turn this ranking into a Spotify playlist.</span>
+        <button
+          type="button"
+          onClick={handleLogin}
+          className="inline-flex items-center gap-1 font-semibold text-emerald-300 hover:text-emerald-200"
+        >
+          <LogIn className="h-4 w-4" />
+          Sign in with Spotify
+        </button>
+        {loginError && <span className="w-full text-xs text-red-300">{loginError}</span>}
+      </div>
+    );
+  }
+
+  const failedCount = Object.values(statuses).filter((status) => status.state === 'failed').length;
+  const addedTracks = Object.values(statuses).reduce((sum, status) => sum + (status.added ?? 0), 0);
+  const hasRun = Object.keys(statuses).length > 0;
+
+  return (
+    <div className="space-y-3 rounded border border-gray-700 bg-gray-800/60 p-3 text-sm text-gray-300">
+      <p className="font-semibold text-white">Create playlist from ranking</p>
+      <input
+        type="text"
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+        disabled={isExporting}
+        className="w-full rounded border border-gray-600 bg-gray-900 px-3 py-2 text-gray-100 focus:border-emerald-400 focus:outline-none"
+        aria-label="Playlist name"
+      />
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={tracksPerAlbum ?? 'all'}
+          onChange={(event) => setTracksPerAlbum(event.target.value === 'all' ? null : Number(event.target.value))}
+          disabled={isExporting}
+          className="rounded border border-gray-600 bg-gray-900 px-2 py-1 text-gray-100"
+          aria-label="Tracks per album"
+        >
+          {trackOptions.map((option) => (
+            <option key={option.label} value={option.value ?? 'all'}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={isPublic}
+            onChange={(event) => setIsPublic(event.target.checked)}
+            disabled={isExporting}
+            className="h-4 w-4 rounded border-gray-700 bg-gray-900 text-green-500 focus:ring-green-400"
+          />
+          <span>Public</span>
+        </label>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={isExporting || albums.length === 0 || !name.trim()}
+          className="ml-auto rounded bg-emerald-500 px-3 py-1.5 font-semibold text-white transition-colors hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {isExporting ? 'Creating…' : 'Create playlist'}
+        </button>
+      </div>
+      {error && (
+        <div className="rounded border border-red-500 bg-red-500/10 px-3 py-2 text-red-200">
+          {error}{' '}
+          {needsReauth && (
+            <button type="button" onClick={handleLogin} className="font-semibold underline underline-offset-2">
+              Sign in again
+            </button>
+          )}
+          {loginError && <span className="block text-xs">{loginError}</span>}
+        </div>
+      )}
+      {hasRun && (
+        <ol className="max-h-48 space-y-1 overflow-y-auto pr-1">
+          {albums.map((album, index) => {
+            const status = statuses[album.id];
+            return (
+              <li key={album.id} className="flex items-center gap-2">
+                {status?.state === 'adding' && <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin text-gray-400" />}
+                {status?.state === 'added' && <CheckCircle2 className="h-4 w-4 flex-shrink-0 text-green-400" />}
+                {status?.state === 'failed' && <XCircle className="h-4 w-4 flex-shrink-0 text-red-400" />}
+                {(status?.state === 'pending' || status?.state === 'skipped') && (
+                  <MinusCircle className="h-4 w-4 flex-shrink-0 text-gray-600" />
+                )}
+                <span className="min-w-0 flex-1 truncate">
+                  {index + 1}. {album.name}
+                  {album.artist ? ` – ${album.artist}` : ''}
+                </span>
+                <span className="flex-shrink-0 text-xs text-gray-400">
+                  {status?.state === 'added' && `${status.added} tracks`}
+                  {status?.state === 'failed' && 'Failed'}
+                  {status?.state === 'skipped' && 'Not on Spotify'}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      {hasRun && !isExporting && playlistUrl && (
+        <div className="flex flex-wrap items-center gap-2 text-green-200">
+          <span>
+            Added {addedTracks} tracks{failedCount > 0 ? `; ${failedCount} album${failedCount > 1 ? 's' : ''} failed` : ''}.
+          </span>
+          <a
+            href={playlistUrl}
+            target="_blank"
+            rel="noreferrer"
+            className="inline-flex items-center gap-1 font-semibold text-green-300 underline underline-offset-2"
+          >
+            Open in Spotify
+            <ExternalLink className="h-3.5 w-3.5" />
+          </a>
+        </div>
+      )}
+    </div>
+  );
+}
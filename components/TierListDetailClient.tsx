@@ -5,12 +5,15 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { ExternalLink, Share2 } from 'lucide-react';
 import { toJpeg } from 'html-to-image';
-import { tierDefinitions, mergeTierMetadata } from '@/data/tierMaker';
+import { tierDefinitions, mergeTierMetadata, CUSTOM_TIER_BOARD_ID } from '@/data/tierMaker';
 import { tierPalette, defaultTierPalette } from '@/data/tierPalette';
-import type { StoredTierList, TierId, TierListAlbum } from '@/types/tier-list';
+import { sourceIdToSpotifyUrl } from '@/utils/spotify';
+import type { StoredTierList, TierId, TierListAlbum, TierListSummary } from '@/types/tier-list';
 
 interface TierListDetailClientProps {
   tierList: StoredTierList;
+  /** Other tier lists of the same playlist. */
+  relatedTierLists?: TierListSummary[];
 }
 
 const buildTierGroups = (albums: TierListAlbum[]) => {
@@ -103,10 +106,12 @@ function TierAlbumTileStatic({ album, hideDecorations }: { album: TierListAlbum;
   );
 }
 
-export default function TierListDetailClient({ tierList }: TierListDetailClientProps) {
+export default function TierListDetailClient({ tierList, relatedTierLists = [] }: TierListDetailClientProps) {
   const tierGroups = useMemo(() => buildTierGroups(tierList.albums), [tierList.albums]);
   const tierMetadata = useMemo(() => mergeTierMetadata(tierList.tierMetadata), [tierList.tierMetadata]);
   const boardRef = useRef<HTMLDivElement>(null);
+  const spotifySourceUrl =
+    tierList.playlistId !== CUSTOM_TIER_BOARD_ID ? sourceIdToSpotifyUrl(tierList.playlistId) : null;
   const hideDecorations = false;
   const [isDownloading, setIsDownloading] = useState(false);
   const [downloadError, setDownloadError] = useState<string | null>(null);
@@ -202,16 +207,36 @@ export default function TierListDetailClient({ tierList }: TierListDetailClientP
                 Built by {tierList.playlistOwner} • Shared{' '}
                 {new Date(tierList.createdAt).toLocaleDateString()}
               </p>
+              {tierList.remixedFrom && (
+                <p className="text-sm text-gray-400">
+                  Remixed from{' '}
+                  <Link
+                    href={`/tier-lists/${tierList.remixedFrom.id}`}
+                    className="font-semibold text-emerald-300 hover:text-emerald-200"
+                  >
+                    {tierList.remixedFrom.playlistName}
+                  </Link>
+                </p>
+              )}
             </div>
           </div>
           <div className="flex flex-wrap gap-3">
-            {tierList.playlistId && (
-              <Link
-                href={`/tier-maker?playlistId=${encodeURIComponent(tierList.playlistId)}`}
-                className="inline-flex items-center justify-center rounded-md bg-emerald-500 px-4 py-2 text-sm font-semibold text-gray-900 transition hover:bg-emerald-400"
+            <Link
+              href={`/tier-maker?from=${tierList.id}`}
+              className="inline-flex items-center justify-center rounded-md bg-emerald-500 px-4 py-2 text-sm font-semibold text-gray-900 transition hover:bg-emerald-400"
+            >
+              Remix This Tier List
+            </Link>
+            {spotifySourceUrl && (
+              <a
+                href={spotifySourceUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="inline-flex items-center gap-2 rounded-md border border-gray-700 px-4 py-2 text-sm font-semibold text-gray-200 transition hover:border-gray-500"
               >
-                Fork This Tier List
-              </Link>
+                <ExternalLink className="h-4 w-4" />
+                Open in Spotify
+              </a>
             )}
             <button
               type="button"
@@ -348,6 +373,35 @@ export default function TierListDetailClient({ tierList }: TierListDetailClientP
           })}
         </div>
       </section>
+
+      {relatedTierLists.length > 0 && (
+        <section className="mt-10 space-y-4">
+          <h2 className="text-xl font-semibold text-white">More tier lists of this playlist</h2>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {relatedTierLists.map((related) => (
+              <Link
+                key={related.id}
+                href={`/tier-lists/${related.id}`}
+                className="group flex items-center gap-3 rounded-xl border border-gray-800 bg-gray-950/70 p-3 transition hover:border-emerald-400/70"
+              >
+                <div className="grid h-14 w-14 flex-shrink-0 grid-cols-2 gap-0.5 overflow-hidden rounded-md bg-gray-900">
+                  {related.previewAlbums.map((album) => (
+                    <div key={album.id} className="relative">
+                      {album.image && <Image src={album.image} alt={album.name} fill sizes="28px" className="object-cover" />}
+                    </div>
+                  ))}
+                </div>
+                <div className="min-w-0">
+                  <p className="truncate font-semibold text-white group-hover:text-emerald-200">{related.playlistName}</p>
+                  <p className="truncate text-xs text-gray-400">
+                    {related.playlistOwner} • {related.albumCount} album{related.albumCount === 1 ? '' : 's'}
+                  </p>
+                </div>
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
     </div>
   );
 }
@@ -7,6 +7,11 @@ export type TierDefinition = {
   subheading: string;
 };
 
+/** `playlistId` of boards that were not built from a single Spotify source. */
+export const CUSTOM_TIER_BOARD_ID = 'custom-tier-board';
+/** Title used when a tier list is saved without one. */
+export const DEFAULT_TIER_LIST_NAME = 'Custom Tier Board';
+
 export const rankedTierIds: RankedTierId[] = ['s', 'a', 'b', 'c'];
 
 export const tierDefinitions: TierDefinition[] = [
@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { createServer, type IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import type { BlobStore } from '@/types/storage';
+import { createFilesystemBlobStore } from './blobs/filesystemBlobStore';
+import { createS3BlobStore } from './blobs/s3BlobStore';
+
+const readBody = async (request: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * A local stand-in for an S3-compatible service: path-style PUT, GET and DELETE on one bucket, kept in
+ * memory, with S3's NoSuchKey error for missing objects.
+ */
+const startS3StandIn = async (bucket: string) => {
+  const objects = new Map<string, { body: Buffer; contentType: string }>();
+  const server = createServer(async (request, response) => {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    const prefix = `/${bucket}/`;
+    if (!pathname.startsWith(prefix)) {
+      response.writeHead(404).end();
+      return;
+    }
+    const key = decodeURIComponent(pathname.slice(prefix.length));
+
+    if (request.method === 'PUT') {
+      objects.set(key, {
+        body: await readBody(request),
+        contentType: request.headers['content-type'] ?? 'application/octet-stream',
+      });
+      response.writeHead(200, { ETag: '"stand-in"' }).end();
+    } else if (request.method === 'GET') {
+      const object = objects.get(key);
+      if (!object) {
+        response
+          .writeHead(404, { 'Content-Type': 'application/xml' })
+          .end('<?xml version="1.0" encoding="UTF-8"?><Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>');
+        return;
+      }
+      response
+        .writeHead(200, { 'Content-Type': object.contentType, 'Content-Length': object.body.length })
+        .end(object.body);
+    } else if (request.method === 'DELETE') {
+      objects.delete(key);
+      response.writeHead(204).end();
+    } else {
+      response.writeHead(405).end();
+    }
+  });
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+  return { endpoint: `http://127.0.0.1:${port}`, objects, close: () => server.close() };
+};
+
+const image = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+
+// The behaviour lib/blobs relies on from either backend
+const itStoresBlobs = (getStore: () => BlobStore) => {
+  it('reads back what was put, with its content type', async () => {
+    await getStore().put('reviews/a.jpg', image, 'image/jpeg');
+    assert.deepEqual(await getStore().get('reviews/a.jpg'), { body: image, contentType: 'image/jpeg' });
+  });
+
+  it('returns null for a missing key', async () => {
+    assert.equal(await getStore().get('reviews/missing.jpg'), null);
+  });
+
+  it('deletes a blob, and ignores keys that are already gone', async () => {
+    await getStore().put('tier-lists/b.png', image, 'image/png');
+    await getStore().delete('tier-lists/b.png');
+    assert.equal(await getStore().get('tier-lists/b.png'), null);
+    await getStore().delete('tier-lists/b.png');
+  });
+};
+
+describe('filesystem blob store', () => {
+  let root = '';
+  let store: BlobStore;
+
+  before(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'blobs-'));
+    store = createFilesystemBlobStore(root);
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  itStoresBlobs(() => store);
+
+  it('rejects keys that escape the root', async () => {
+    await assert.rejects(store.put('../outside.jpg', image, 'image/jpeg'), /Invalid blob key/);
+    await assert.rejects(store.get('reviews/../../outside.jpg'), /Invalid blob key/);
+  });
+});
+
+describe('S3 blob store', () => {
+  let standIn: Awaited<ReturnType<typeof startS3StandIn>>;
+  let store: BlobStore;
+
+  before(async () => {
+    standIn = await startS3StandIn('images');
+    store = createS3BlobStore({
+      bucket: 'images',
+      region: 'us-east-1',
+      endpoint: standIn.endpoint,
+      forcePathStyle: true,
+      accessKeyId: 'test',
+      secretAccessKey: 'test',
+    });
+  });
+
+  after(() => {
+    standIn.close();
+  });
+
+  itStoresBlobs(() => store);
+
+  it('writes objects under the bucket with the given key', async () => {
+    await store.put('reviews/c.jpg', image, 'image/jpeg');
+    assert.deepEqual(standIn.objects.get('reviews/c.jpg'), { body: image, contentType: 'image/jpeg' });
+  });
+});
+
+describe('getBlobStore', () => {
+  it('fails only when called if production has no storage location', async () => {
+    const saved = { ...process.env };
+    Object.assign(process.env, { NODE_ENV: 'production' });
+    delete process.env.BLOB_STORAGE;
+    delete process.env.BLOB_STORAGE_DIR;
+    try {
+      const { getBlobStore } = await import('./blobs');
+      assert.throws(() => getBlobStore(), /Blob storage is not configured/);
+    } finally {
+      process.env = saved;
+    }
+  });
+});
@@ -0,0 +1,16 @@
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/** File extension for an image MIME type, or null for types we do not store. */
+export function extensionForContentType(contentType: string) {
+  return EXTENSIONS[contentType] ?? null;
+}
+
+export function contentTypeForKey(key: string) {
+  const extension = key.slice(key.lastIndexOf('.') + 1).toLowerCase();
+  const match = Object.entries(EXTENSIONS).find(([, value]) => value === extension);
+  return match ? match[0] : 'application/octet-stream';
+}
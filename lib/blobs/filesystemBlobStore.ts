@@ -0,0 +1,36 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { BlobStore } from '@/types/storage';
+import { contentTypeForKey } from './contentTypes';
+
+/** Blobs as plain files under `root`; the content type is derived from the key's extension. */
+export function createFilesystemBlobStore(root: string): BlobStore {
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, body) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+    },
+    async get(key) {
+      try {
+        return { body: await readFile(resolveKey(key)), contentType: contentTypeForKey(key) };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { BlobStore, BlobStoreKind } from '@/types/storage';
+import { extensionForContentType } from './contentTypes';
+import { createFilesystemBlobStore } from './filesystemBlobStore';
+import { createS3BlobStore } from './s3BlobStore';
+
+/** Public path prefix of the route that serves blobs (app/images/[...key]). */
+export const IMAGE_ROUTE_PREFIX = '/images/';
+
+export type ImageCollection = 'reviews' | 'tier-lists';
+
+// BLOB_STORAGE=s3 writes to S3_BUCKET; the default keeps files under BLOB_STORAGE_DIR
+export const blobStoreKind: BlobStoreKind = process.env.BLOB_STORAGE === 's3' ? 's3' : 'filesystem';
+
+let store: BlobStore | null = null;
+
+/**
+ * The configured blob store, created on first use. Throws when production has no storage location, so
+ * only requests that store or serve images fail rather than every page that imports this module.
+ */
+export function getBlobStore(): BlobStore {
+  if (store) {
+    return store;
+  }
+
+  if (blobStoreKind === 's3') {
+    store = createS3BlobStore({
+      bucket: process.env.S3_BUCKET ?? '',
+      region: process.env.S3_REGION ?? 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+    return store;
+  }
+
+  // Serverless hosts such as Vercel have a read-only, ephemeral filesystem, so production has to pick
+  // a location explicitly instead of silently writing under the working directory
+  if (!process.env.BLOB_STORAGE_DIR && process.env.NODE_ENV === 'production') {
+    throw new Error(
+      'Blob storage is not configured. Set BLOB_STORAGE=s3 with S3_BUCKET and credentials, or BLOB_STORAGE_DIR to a persistent writable directory.'
+    );
+  }
+  store = createFilesystemBlobStore(path.resolve(process.env.BLOB_STORAGE_DIR ?? '.data/blobs'));
+  return store;
+}
+
+export function parseDataUrl(dataUrl: string) {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  if (!match) {
+    return null;
+  }
+  const [, contentType, base64Data] = match;
+  return { contentType, body: Buffer.from(base64Data, 'base64') };
+}
+
+/**
+ * Upload an exported image and return the URL path it is served from. Every upload gets a fresh key,
+ * so the image route can mark responses immutable. Returns null for missing or non-image data.
+ */
+export async function storeImageDataUrl(collection: ImageCollection, dataUrl: string | null) {
+  const parsed = dataUrl ? parseDataUrl(dataUrl) : null;
+  const extension = parsed ? extensionForContentType(parsed.contentType) : null;
+  if (!parsed || !extension || parsed.body.length === 0) {
+    return null;
+  }
+
+  const key = `${collection}/${randomUUID()}.${extension}`;
+  await getBlobStore().put(key, parsed.body, parsed.contentType);
+  return `${IMAGE_ROUTE_PREFIX}${key}`;
+}
+
+/** Remove an image previously returned by {@link storeImageDataUrl}; other URLs are ignored. */
+export async function deleteStoredImage(imageUrl: string | null) {
+  if (!imageUrl?.startsWith(IMAGE_ROUTE_PREFIX)) {
+    return;
+  }
+  try {
+    await getBlobStore().delete(imageUrl.slice(IMAGE_ROUTE_PREFIX.length));
+  } catch (error) {
+    // An orphaned blob is harmless; the row change that triggered this has already succeeded
+    console.error(`Failed to delete image ${imageUrl}`, error);
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import type { BlobStore } from '@/types/storage';
+
+export type S3BlobStoreConfig = {
+  bucket: string;
+  region: string;
+  /** Custom endpoint for S3-compatible services (MinIO, R2, LocalStack). */
+  endpoint?: string;
+  forcePathStyle: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+};
+
+export function createS3BlobStore(config: S3BlobStoreConfig): BlobStore {
+  let client: S3Client | null = null;
+
+  // Created on first use so a misconfigured S3 setup only fails requests that touch images
+  const getClient = () => {
+    if (!client) {
+      client = new S3Client({
+        region: config.region,
+        endpoint: config.endpoint,
+        forcePathStyle: config.forcePathStyle,
+        credentials:
+          config.accessKeyId && config.secretAccessKey
+            ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+            : undefined,
+      });
+    }
+    return client;
+  };
+
+  return {
+    async put(key, body, contentType) {
+      await getClient().send(
+        new PutObjectCommand({ Bucket: config.bucket, Key: key, Body: body, ContentType: contentType })
+      );
+    },
+    async get(key) {
+      try {
+        const result = await getClient().send(new GetObjectCommand({ Bucket: config.bucket, Key: key }));
+        if (!result.Body) {
+          return null;
+        }
+        return {
+          body: Buffer.from(await result.Body.transformToByteArray()),
+          contentType: result.ContentType ?? 'application/octet-stream',
+        };
+      } catch (error) {
+        if (error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async delete(key) {
+      await getClient().send(new DeleteObjectCommand({ Bucket: config.bucket, Key: key }));
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { EDIT_TOKEN_HEADER } from '@/utils/ownedCreations';
+
+export type EditAccess = 'granted' | 'denied' | 'not-found';
+
+export function hashEditToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/** Issue a new edit token. Only the hash is stored; the token itself is handed to the creator once. */
+export function createEditToken() {
+  const token = randomBytes(32).toString('base64url');
+  return { token, hash: hashEditToken(token) };
+}
+
+/** Rows saved before edit tokens existed have no hash and cannot be edited through the API. */
+export function matchesEditToken(token: string | null, hash: string | null) {
+  if (!token || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = Buffer.from(hashEditToken(token), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function readEditToken(request: Request) {
+  return request.headers.get(EDIT_TOKEN_HEADER);
+}
+
+/** Response for a failed access check, or null when the request may proceed. */
+export function editAccessError(access: EditAccess, resource: string) {
+  if (access === 'not-found') {
+    return NextResponse.json({ message: `${resource} not found.` }, { status: 404 });
+  }
+  if (access === 'denied') {
+    return NextResponse.json(
+      { message: `A valid edit token is required to change this ${resource.toLowerCase()}.` },
+      { status: 403 }
+    );
+  }
+  return null;
+}
@@ -0,0 +1,42 @@
+import type { Migration } from './types';
+
+// Baseline migrations use IF NOT EXISTS so databases created before versioning adopt them unchanged
+export const createReviews: Migration = {
+  id: '0001_create_reviews',
+  async up(client) {
+    await client.sql`
+      CREATE TABLE IF NOT EXISTS reviews (
+        id UUID PRIMARY KEY,
+        playlist_id TEXT NOT NULL,
+        playlist_name TEXT NOT NULL,
+        playlist_owner TEXT NOT NULL,
+        playlist_image TEXT,
+        image_data_url TEXT,
+        review_mode TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `;
+
+    await client.sql`
+      CREATE TABLE IF NOT EXISTS review_albums (
+        id UUID PRIMARY KEY,
+        review_id UUID NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+        album_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        artist TEXT NOT NULL,
+        image TEXT,
+        release_date TEXT,
+        label TEXT,
+        notes TEXT,
+        rating REAL,
+        spotify_url TEXT
+      );
+    `;
+
+    await client.sql`
+      CREATE INDEX IF NOT EXISTS review_albums_review_id_idx
+      ON review_albums (review_id, position);
+    `;
+  },
+};
@@ -0,0 +1,48 @@
+import type { Migration } from './types';
+
+export const createTierLists: Migration = {
+  id: '0002_create_tier_lists',
+  async up(client) {
+    await client.sql`
+      CREATE TABLE IF NOT EXISTS tier_lists (
+        id UUID PRIMARY KEY,
+        playlist_id TEXT NOT NULL,
+        playlist_name TEXT NOT NULL,
+        playlist_owner TEXT NOT NULL,
+        playlist_image TEXT,
+        image_data_url TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        tier_metadata JSONB
+      );
+    `;
+
+    await client.sql`
+      CREATE TABLE IF NOT EXISTS tier_list_albums (
+        id UUID PRIMARY KEY,
+        tier_list_id UUID NOT NULL REFERENCES tier_lists(id) ON DELETE CASCADE,
+        album_id TEXT NOT NULL,
+        tier TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        artist TEXT NOT NULL,
+        image TEXT,
+        release_date TEXT,
+        label TEXT,
+        notes TEXT,
+        rating REAL,
+        spotify_url TEXT
+      );
+    `;
+
+    await client.sql`
+      CREATE INDEX IF NOT EXISTS tier_list_albums_list_id_idx
+      ON tier_list_albums (tier_list_id, tier, position);
+    `;
+
+    // Tables from before tier titles and colours were customisable
+    await client.sql`
+      ALTER TABLE tier_lists
+      ADD COLUMN IF NOT EXISTS tier_metadata JSONB;
+    `;
+  },
+};
@@ -0,0 +1,14 @@
+import type { Migration } from './types';
+
+export const reviewFiltersAndUpdates: Migration = {
+  id: '0003_review_filters_and_updates',
+  async up(client) {
+    await client.sql`
+      ALTER TABLE reviews ADD COLUMN IF NOT EXISTS filters JSONB;
+    `;
+
+    await client.sql`
+      ALTER TABLE reviews ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+    `;
+  },
+};
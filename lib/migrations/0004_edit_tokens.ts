@@ -0,0 +1,14 @@
+import type { Migration } from './types';
+
+export const editTokens: Migration = {
+  id: '0004_edit_tokens',
+  async up(client) {
+    await client.sql`
+      ALTER TABLE reviews ADD COLUMN IF NOT EXISTS edit_token_hash TEXT;
+    `;
+
+    await client.sql`
+      ALTER TABLE tier_lists ADD COLUMN IF NOT EXISTS edit_token_hash TEXT;
+    `;
+  },
+};
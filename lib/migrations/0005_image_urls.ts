@@ -0,0 +1,15 @@
+import type { Migration } from './types';
+
+// Exported images move to blob storage; image_data_url is kept until `npm run images:backfill` empties it
+export const imageUrls: Migration = {
+  id: '0005_image_urls',
+  async up(client) {
+    await client.sql`
+      ALTER TABLE reviews ADD COLUMN IF NOT EXISTS image_url TEXT;
+    `;
+
+    await client.sql`
+      ALTER TABLE tier_lists ADD COLUMN IF NOT EXISTS image_url TEXT;
+    `;
+  },
+};
@@ -0,0 +1,10 @@
+import type { Migration } from './types';
+
+export const tierListUpdates: Migration = {
+  id: '0006_tier_list_updates',
+  async up(client) {
+    await client.sql`
+      ALTER TABLE tier_lists ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+    `;
+  },
+};
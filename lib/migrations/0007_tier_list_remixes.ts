@@ -0,0 +1,12 @@
+import type { Migration } from './types';
+
+// Remixes keep existing when their source list is deleted; the link is just cleared
+export const tierListRemixes: Migration = {
+  id: '0007_tier_list_remixes',
+  async up(client) {
+    await client.sql`
+      ALTER TABLE tier_lists
+      ADD COLUMN IF NOT EXISTS remixed_from UUID REFERENCES tier_lists(id) ON DELETE SET NULL;
+    `;
+  },
+};
@@ -0,0 +1,20 @@
+import type { Migration } from './types';
+
+// Rows saved before sources were tracked keep NULL and read back as 'manual'
+export const tierListAlbumSources: Migration = {
+  id: '0008_tier_list_album_sources',
+  async up(client) {
+    await client.sql`
+      ALTER TABLE tier_list_albums ADD COLUMN IF NOT EXISTS source TEXT;
+    `;
+
+    await client.sql`
+      ALTER TABLE tier_list_albums ADD COLUMN IF NOT EXISTS source_playlist_id TEXT;
+    `;
+
+    await client.sql`
+      CREATE INDEX IF NOT EXISTS tier_lists_playlist_id_created_at_idx
+      ON tier_lists (playlist_id, created_at DESC);
+    `;
+  },
+};
@@ -0,0 +1,23 @@
+import type { Migration } from './types';
+
+// Deleted rows stay until purged from the admin trash or by the retention sweep in lib/trash
+export const softDelete: Migration = {
+  id: '0009_soft_delete',
+  async up(client) {
+    await client.sql`
+      ALTER TABLE reviews ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+    `;
+
+    await client.sql`
+      ALTER TABLE tier_lists ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+    `;
+
+    await client.sql`
+      CREATE INDEX IF NOT EXISTS reviews_deleted_at_idx ON reviews (deleted_at) WHERE deleted_at IS NOT NULL;
+    `;
+
+    await client.sql`
+      CREATE INDEX IF NOT EXISTS tier_lists_deleted_at_idx ON tier_lists (deleted_at) WHERE deleted_at IS NOT NULL;
+    `;
+  },
+};
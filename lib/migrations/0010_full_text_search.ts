@@ -0,0 +1,56 @@
+import type { Migration } from './types';
+
+// Generated tsvector columns for /api/search. The 'simple' configuration skips stemming and stop words,
+// which suits playlist, album and artist names in any language; prefix queries cover partial words.
+export const fullTextSearch: Migration = {
+  id: '0010_full_text_search',
+  async up(client) {
+    await client.sql`
+      ALTER TABLE reviews ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple'::regconfig, coalesce(playlist_name, '')), 'A') ||
+        setweight(to_tsvector('simple'::regconfig, coalesce(playlist_owner, '')), 'B')
+      ) STORED;
+    `;
+
+    await client.sql`
+      ALTER TABLE tier_lists ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple'::regconfig, coalesce(playlist_name, '')), 'A') ||
+        setweight(to_tsvector('simple'::regconfig, coalesce(playlist_owner, '')), 'B')
+      ) STORED;
+    `;
+
+    await client.sql`
+      ALTER TABLE review_albums ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple'::regconfig, coalesce(name, '')), 'A') ||
+        setweight(to_tsvector('simple'::regconfig, coalesce(artist, '')), 'B') ||
+        setweight(to_tsvector('simple'::regconfig, coalesce(label, '')), 'C') ||
+        setweight(to_tsvector('simple'::regconfig, coalesce(notes, '')), 'D')
+      ) STORED;
+    `;
+
+    await client.sql`
+      ALTER TABLE tier_list_albums ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple'::regconfig, coalesce(name, '')), 'A') ||
+        setweight(to_tsvector('simple'::regconfig, coalesce(artist, '')), 'B') ||
+        setweight(to_tsvector('simple'::regconfig, coalesce(label, '')), 'C') ||
+        setweight(to_tsvector('simple'::regconfig, coalesce(notes, '')), 'D')
+      ) STORED;
+    `;
+
+    await client.sql`
+      CREATE INDEX IF NOT EXISTS reviews_search_vector_idx ON reviews USING GIN (search_vector);
+    `;
+
+    await client.sql`
+      CREATE INDEX IF NOT EXISTS tier_lists_search_vector_idx ON tier_lists USING GIN (search_vector);
+    `;
+
+    await client.sql`
+      CREATE INDEX IF NOT EXISTS review_albums_search_vector_idx ON review_albums USING GIN (search_vector);
+    `;
+
+    await client.sql`
+      CREATE INDEX IF NOT EXISTS tier_list_albums_search_vector_idx ON tier_list_albums USING GIN (search_vector);
+    `;
+  },
+};
@@ -0,0 +1,21 @@
+import type { Migration } from './types';
+
+// Used only when SPOTIFY_CACHE_STORE=postgres; earlier deploys created the same table at runtime
+export const spotifyCache: Migration = {
+  id: '0011_spotify_cache',
+  async up(client) {
+    await client.sql`
+      CREATE TABLE IF NOT EXISTS spotify_cache (
+        key TEXT PRIMARY KEY,
+        value JSONB NOT NULL,
+        expires_at TIMESTAMPTZ NOT NULL,
+        accessed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `;
+
+    await client.sql`
+      CREATE INDEX IF NOT EXISTS spotify_cache_accessed_at_idx
+      ON spotify_cache (accessed_at);
+    `;
+  },
+};
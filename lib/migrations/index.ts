@@ -0,0 +1,133 @@
+import { db } from '@vercel/postgres';
+import { createReviews } from './0001_create_reviews';
+import { createTierLists } from './0002_create_tier_lists';
+import { reviewFiltersAndUpdates } from './0003_review_filters_and_updates';
+import { editTokens } from './0004_edit_tokens';
+import { imageUrls } from './0005_image_urls';
+import { tierListUpdates } from './0006_tier_list_updates';
+import { tierListRemixes } from './0007_tier_list_remixes';
+import { tierListAlbumSources } from './0008_tier_list_album_sources';
+import { softDelete } from './0009_soft_delete';
+import { fullTextSearch } from './0010_full_text_search';
+import { spotifyCache } from './0011_spotify_cache';
+import type { Migration } from './types';
+
+export type { Migration } from './types';
+
+/** Every migration, oldest first. Append new entries; never reorder or edit applied ones. */
+export const migrations: Migration[] = [
+  createReviews,
+  createTierLists,
+  reviewFiltersAndUpdates,
+  editTokens,
+  imageUrls,
+  tierListUpdates,
+  tierListRemixes,
+  tierListAlbumSources,
+  softDelete,
+  fullTextSearch,
+  spotifyCache,
+];
+
+// Set DATABASE_AUTO_MIGRATE=false to apply migrations only through `npm run db:migrate`
+const AUTO_MIGRATE = process.env.DATABASE_AUTO_MIGRATE !== 'false';
+
+// Keyed by the comma-joined list of required migrations; each store checks once per process
+const readyByRequirement = new Map<string, Promise<void>>();
+
+const assertConfigured = () => {
+  if (!process.env.POSTGRES_URL && !process.env.POSTGRES_URL_NON_POOLING) {
+    throw new Error(
+      'Postgres connection string is not configured. Set POSTGRES_URL (or POSTGRES_URL_NON_POOLING) to enable persistence.'
+    );
+  }
+};
+
+/**
+ * Apply all pending migrations and return the ids that ran. Everything happens in one transaction
+ * holding an advisory lock, so concurrent cold starts wait for each other instead of racing.
+ */
+export async function runMigrations(): Promise<string[]> {
+  assertConfigured();
+
+  const client = await db.connect();
+  try {
+    await client.sql`BEGIN`;
+
+    try {
+      await client.sql`SELECT pg_advisory_xact_lock(hashtext('schema_migrations'));`;
+      await client.sql`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          id TEXT PRIMARY KEY,
+          applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+      `;
+
+      const { rows } = await client.sql<{ id: string }>`SELECT id FROM schema_migrations;`;
+      const applied = new Set(rows.map((row) => row.id));
+      const pending = migrations.filter((migration) => !applied.has(migration.id));
+
+      for (const migration of pending) {
+        await migration.up(client);
+        await client.sql`INSERT INTO schema_migrations (id) VALUES (${migration.id});`;
+      }
+
+      await client.sql`COMMIT`;
+      return pending.map((migration) => migration.id);
+    } catch (error) {
+      await client.sql`ROLLBACK`;
+      throw error;
+    }
+  } finally {
+    client.release();
+  }
+}
+
+async function assertApplied(required: string[]) {
+  const client = await db.connect();
+  try {
+    const { rows } = await client.sql<{ id: string }>`
+      SELECT id FROM schema_migrations;
+    `;
+    const applied = new Set(rows.map((row) => row.id));
+    const missing = required.filter((id) => !applied.has(id));
+    if (missing.length > 0) {
+      throw new Error(`Database is missing migrations ${missing.join(', ')}. Run \`npm run db:migrate\`.`);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Called by each store before its first query with the migrations its queries depend on.
+ * Pending migrations are applied on first use unless auto-migration is disabled, in which case
+ * the required ones are only checked.
+ */
+export function ensureMigrations(required: string[]): Promise<void> {
+  const unknown = required.filter((id) => !migrations.some((migration) => migration.id === id));
+  if (unknown.length > 0) {
+    return Promise.reject(new Error(`Unknown migrations required: ${unknown.join(', ')}`));
+  }
+
+  const key = required.join(',');
+  let ready = readyByRequirement.get(key);
+  if (!ready) {
+    ready = (async () => {
+      assertConfigured();
+      if (!AUTO_MIGRATE) {
+        await assertApplied(required);
+        return;
+      }
+      const applied = await runMigrations();
+      if (applied.length > 0) {
+        console.info(`Applied database migrations: ${applied.join(', ')}`);
+      }
+    })();
+    readyByRequirement.set(key, ready);
+    // A failed attempt (e.g. a database that was briefly unreachable) is retried on the next call
+    ready.catch(() => readyByRequirement.delete(key));
+  }
+
+  return ready;
+}
@@ -0,0 +1,7 @@
+import type { VercelPoolClient } from '@vercel/postgres';
+
+export type Migration = {
+  /** Sortable, never reused: `NNNN_short_description`. */
+  id: string;
+  up: (client: VercelPoolClient) => Promise<void>;
+};
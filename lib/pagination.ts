@@ -0,0 +1,101 @@
+import type { ListCursor, ListQuery, ReviewListQuery } from '@/types/storage';
+import type { ReviewMode } from '@/types/review';
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+/** Albums included with each listing summary for card previews. */
+export const SUMMARY_PREVIEW_ALBUMS = 4;
+
+const REVIEW_MODES: ReviewMode[] = ['review', 'plain', 'rating', 'both'];
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Cursors are opaque to clients: base64url JSON of the last item's createdAt and id. */
+export function encodeCursor(cursor: ListCursor) {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString('base64url');
+}
+
+export function decodeCursor(value: string): ListCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      Array.isArray(parsed) &&
+      typeof parsed[0] === 'string' &&
+      typeof parsed[1] === 'string' &&
+      UUID.test(parsed[1]) &&
+      !Number.isNaN(Date.parse(parsed[0]))
+    ) {
+      return { createdAt: parsed[0], id: parsed[1] };
+    }
+  } catch {
+    // Fall through: malformed cursors are reported as invalid
+  }
+  return null;
+}
+
+/** A date-only `to` bound covers the whole day. Returns undefined for empty input and null when invalid. */
+const parseDateBound = (value: string | null, endOfDay: boolean): string | null | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const normalized = DATE_ONLY.test(value) && endOfDay ? `${value}T23:59:59.999Z` : value;
+  const time = Date.parse(normalized);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+};
+
+/**
+ * Read `limit`, `cursor`, `playlistId`, `owner`, `from` and `to` from a query string.
+ * Returns null when a value is present but malformed.
+ */
+export function parseListQuery(params: URLSearchParams): ListQuery | null {
+  const limitParam = params.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1) {
+    return null;
+  }
+
+  const cursorParam = params.get('cursor');
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return null;
+  }
+
+  const createdFrom = parseDateBound(params.get('from'), false);
+  const createdTo = parseDateBound(params.get('to'), true);
+  if (createdFrom === null || createdTo === null) {
+    return null;
+  }
+
+  return {
+    limit: Math.min(limit, MAX_PAGE_SIZE),
+    cursor,
+    playlistId: params.get('playlistId')?.trim() || undefined,
+    owner: params.get('owner')?.trim() || undefined,
+    createdFrom,
+    createdTo,
+  };
+}
+
+/** {@link parseListQuery} plus the review-only `mode` filter. */
+export function parseReviewListQuery(params: URLSearchParams): ReviewListQuery | null {
+  const query = parseListQuery(params);
+  const mode = params.get('mode');
+  if (!query || (mode && !REVIEW_MODES.includes(mode as ReviewMode))) {
+    return null;
+  }
+  return { ...query, reviewMode: (mode as ReviewMode) || undefined };
+}
+
+/** Trim the extra row fetched to detect a further page and build the cursor for it. */
+export function toPage<T extends { id: string; createdAt: string }>(
+  items: T[],
+  limit: number,
+  cursorOf: (item: T) => ListCursor = (item) => ({ createdAt: item.createdAt, id: item.id })
+) {
+  const pageItems = items.slice(0, limit);
+  const last = pageItems[pageItems.length - 1];
+  return {
+    items: pageItems,
+    nextCursor: items.length > limit && last ? encodeCursor(cursorOf(last)) : null,
+  };
+}
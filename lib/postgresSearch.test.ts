@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { PGlite } from '@electric-sql/pglite';
+import { buildPrefixTsquery } from './storage/postgresSearch';
+
+describe('buildPrefixTsquery', () => {
+  let pg: PGlite;
+  // The slice of a @vercel/postgres client the builder uses, backed by an in-process Postgres
+  const client = {
+    sql: (strings: TemplateStringsArray, ...values: unknown[]) =>
+      pg.query(strings.reduce((text, part, index) => `${text}$${index}${part}`), values),
+  } as unknown as Parameters<typeof buildPrefixTsquery>[0];
+
+  const matches = async (tsquery: string, text: string) => {
+    const { rows } = await pg.query<{ match: boolean }>(
+      `SELECT to_tsvector('simple', $1) @@ $2::tsquery AS match`,
+      [text, tsquery]
+    );
+    return rows[0].match;
+  };
+
+  before(async () => {
+    pg = await PGlite.create();
+  });
+
+  after(async () => {
+    await pg.close();
+  });
+
+  it('keeps a slash-joined name as one prefix term', async () => {
+    const tsquery = await buildPrefixTsquery(client, 'AC/DC');
+    assert.equal(tsquery, "'ac/dc':*");
+    assert.equal(await matches(tsquery ?? '', 'AC/DC - Highway to Hell'), true);
+    assert.equal(await matches((await buildPrefixTsquery(client, 'ac')) ?? '', 'AC/DC'), true);
+  });
+
+  it('splits a name with an apostrophe into quoted words', async () => {
+    const tsquery = await buildPrefixTsquery(client, "Guns N' Roses");
+    assert.equal(tsquery, "'guns':* & 'n':* & 'roses':*");
+    assert.equal(await matches(tsquery ?? '', "Appetite for Destruction by Guns N' Roses"), true);
+  });
+
+  it('keeps the first words in the order they were typed', async () => {
+    const tsquery = await buildPrefixTsquery(client, 'zeppelin yes queen muse kiss journey heart abba');
+    assert.equal(
+      tsquery,
+      "'zeppelin':* & 'yes':* & 'queen':* & 'muse':* & 'kiss':* & 'journey':* & 'heart':* & 'abba':*"
+    );
+    assert.equal(
+      await buildPrefixTsquery(client, 'zeppelin yes queen muse kiss journey heart toto abba'),
+      "'zeppelin':* & 'yes':* & 'queen':* & 'muse':* & 'kiss':* & 'journey':* & 'heart':* & 'toto':*"
+    );
+  });
+
+  it('returns null for text without words', async () => {
+    assert.equal(await buildPrefixTsquery(client, '--'), null);
+  });
+});
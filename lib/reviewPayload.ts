@@ -0,0 +1,98 @@
+import type { ReviewInput, ReviewMode, ReviewUpdate, StoredAlbum } from '@/types/review';
+import { normalizeReviewFilters } from '@/utils/reviewFilters';
+
+const allowedModes: ReviewMode[] = ['review', 'plain', 'rating', 'both'];
+
+const normalizeLabel = (value: unknown) =>
+  typeof value === 'string' && value.trim().length > 0 ? value.trim() : null;
+
+export function parseReviewAlbums(albumsInput: unknown[]): StoredAlbum[] {
+  return albumsInput
+    .map((albumEntry: unknown) => {
+      if (typeof albumEntry !== 'object' || albumEntry === null) {
+        return null;
+      }
+      const album = albumEntry as Record<string, unknown>;
+      const id = typeof album.id === 'string' ? album.id : null;
+      const name = typeof album.name === 'string' ? album.name : null;
+      if (!id || !name) {
+        return null;
+      }
+      return {
+        id,
+        name,
+        artist: typeof album.artist === 'string' ? (album.artist as string) : '',
+        image: typeof album.image === 'string' ? (album.image as string) : null,
+        releaseDate: typeof album.releaseDate === 'string' ? (album.releaseDate as string) : '',
+        label: normalizeLabel(album.label),
+        notes: typeof album.notes === 'string' ? (album.notes as string) : '',
+        rating: typeof album.rating === 'number' ? (album.rating as number) : null,
+        spotifyUrl: typeof album.spotifyUrl === 'string' ? (album.spotifyUrl as string) : null,
+      } satisfies StoredAlbum;
+    })
+    .filter((album): album is StoredAlbum => Boolean(album));
+}
+
+const normalizeReviewMode = (reviewMode: unknown): ReviewMode =>
+  typeof reviewMode === 'string' && allowedModes.includes(reviewMode as ReviewMode)
+    ? (reviewMode as ReviewMode)
+    : 'review';
+
+/** Validate a full review body (POST and PUT). Returns null when required fields are missing. */
+export function parseReviewInput(payload: unknown): ReviewInput | null {
+  const body = (payload ?? {}) as Record<string, unknown>;
+  const { playlistId, playlistName, playlistOwner, imageDataUrl, playlistImage, reviewMode, filters } = body;
+
+  if (
+    typeof playlistId !== 'string' ||
+    typeof playlistName !== 'string' ||
+    typeof playlistOwner !== 'string'
+  ) {
+    return null;
+  }
+
+  return {
+    playlistId,
+    playlistName,
+    playlistOwner,
+    playlistImage: typeof playlistImage === 'string' ? playlistImage : null,
+    albums: parseReviewAlbums(Array.isArray(body.albums) ? body.albums : []),
+    imageDataUrl: typeof imageDataUrl === 'string' ? imageDataUrl : null,
+    reviewMode: normalizeReviewMode(reviewMode),
+    filters: normalizeReviewFilters(filters),
+  };
+}
+
+/** Validate a partial review body (PATCH). Only fields present in the body are returned. */
+export function parseReviewUpdate(payload: unknown): ReviewUpdate | null {
+  if (typeof payload !== 'object' || payload === null) {
+    return null;
+  }
+  const body = payload as Record<string, unknown>;
+  const update: ReviewUpdate = {};
+
+  for (const key of ['playlistName', 'playlistOwner'] as const) {
+    if (key in body) {
+      if (typeof body[key] !== 'string') return null;
+      update[key] = body[key] as string;
+    }
+  }
+  if ('playlistImage' in body) {
+    update.playlistImage = typeof body.playlistImage === 'string' ? body.playlistImage : null;
+  }
+  if ('imageDataUrl' in body) {
+    update.imageDataUrl = typeof body.imageDataUrl === 'string' ? body.imageDataUrl : null;
+  }
+  if ('albums' in body) {
+    if (!Array.isArray(body.albums)) return null;
+    update.albums = parseReviewAlbums(body.albums);
+  }
+  if ('reviewMode' in body) {
+    update.reviewMode = normalizeReviewMode(body.reviewMode);
+  }
+  if ('filters' in body) {
+    update.filters = normalizeReviewFilters(body.filters);
+  }
+
+  return update;
+}
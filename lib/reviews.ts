@@ -1,325 +1,74 @@
-import { randomUUID } from 'crypto';
-import { db } from '@vercel/postgres';
-import type { VercelPoolClient } from '@vercel/postgres';
-import type { ReviewInput, StoredAlbum, StoredReview, ReviewMode } from '@/types/review';
-
-type ReviewRow = {
-  review_id: string;
-  playlist_id: string;
-  playlist_name: string;
-  playlist_owner: string;
-  playlist_image: string | null;
-  image_data_url: string | null;
-  review_mode: ReviewMode;
-  created_at: Date | null;
-  album_row_id: string | null;
-  album_id: string | null;
-  position: number | null;
-  album_name: string | null;
-  artist: string | null;
-  album_image: string | null;
-  release_date: string | null;
-  label: string | null;
-  notes: string | null;
-  rating: number | null;
-  spotify_url: string | null;
-};
-
-const VALID_MODES: ReviewMode[] = ['review', 'plain', 'rating', 'both'];
-
-let schemaReady: Promise<void> | null = null;
-
-async function withClient<T>(handler: (client: VercelPoolClient) => Promise<T>): Promise<T> {
-  const client = await db.connect();
+import type { CreatedReview, ReviewInput, ReviewUpdate, StoredReview } from '@/types/review';
+import type { ReviewRepository } from '@/types/storage';
+import { deleteStoredImage, storeImageDataUrl } from './blobs';
+import { reviewRepository } from './storage';
+
+/** One page of review summaries, newest first. */
+export const listReviewSummaries: ReviewRepository['listReviewSummaries'] = (query) =>
+  reviewRepository.listReviewSummaries(query);
+
+/** Store a new review, moving its exported image into blob storage first. */
+export async function addReview({ imageDataUrl, ...input }: ReviewInput): Promise<CreatedReview> {
+  const imageUrl = await storeImageDataUrl('reviews', imageDataUrl);
   try {
-    return await handler(client);
-  } finally {
-    client.release();
+    return await reviewRepository.addReview({ ...input, imageUrl });
+  } catch (error) {
+    await deleteStoredImage(imageUrl);
+    throw error;
   }
 }
 
-async function ensureSchema() {
-  if (!schemaReady) {
-    schemaReady = (async () => {
-      if (!process.env.POSTGRES_URL && !process.env.POSTGRES_URL_NON_POOLING) {
-        throw new Error(
-          'Postgres connection string is not configured. Set POSTGRES_URL (or POSTGRES_URL_NON_POOLING) to enable review persistence.'
-        );
-      }
+export const getReviewById: ReviewRepository['getReviewById'] = (id) => reviewRepository.getReviewById(id);
 
-      await withClient(async (client) => {
-        await client.sql`
-          CREATE TABLE IF NOT EXISTS reviews (
-            id UUID PRIMARY KEY,
-            playlist_id TEXT NOT NULL,
-            playlist_name TEXT NOT NULL,
-            playlist_owner TEXT NOT NULL,
-            playlist_image TEXT,
-            image_data_url TEXT,
-            review_mode TEXT NOT NULL,
-            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
-          );
-        `;
-
-        await client.sql`
-          CREATE TABLE IF NOT EXISTS review_albums (
-            id UUID PRIMARY KEY,
-            review_id UUID NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
-            album_id TEXT NOT NULL,
-            position INTEGER NOT NULL,
-            name TEXT NOT NULL,
-            artist TEXT NOT NULL,
-            image TEXT,
-            release_date TEXT,
-            label TEXT,
-            notes TEXT,
-            rating REAL,
-            spotify_url TEXT
-          );
-        `;
-
-        await client.sql`
-          CREATE INDEX IF NOT EXISTS review_albums_review_id_idx
-          ON review_albums (review_id, position);
-        `;
-      });
-    })();
+/** Apply an edit; a new image replaces the stored one, which is deleted once the row points elsewhere. */
+export async function updateReview(id: string, { imageDataUrl, ...update }: ReviewUpdate): Promise<StoredReview | null> {
+  if (imageDataUrl === undefined) {
+    return reviewRepository.updateReview(id, update);
   }
 
-  return schemaReady;
-}
-
-function mapRowToAlbum(row: ReviewRow): StoredAlbum | null {
-  if (!row.album_row_id || !row.album_id || row.album_name == null || row.artist == null) {
+  const previous = await reviewRepository.getReviewById(id);
+  if (!previous) {
     return null;
   }
-
-  return {
-    id: row.album_id,
-    name: row.album_name,
-    artist: row.artist,
-    image: row.album_image,
-    releaseDate: row.release_date ?? '',
-    label: row.label,
-    notes: row.notes ?? '',
-    rating: row.rating == null ? null : Number(row.rating),
-    spotifyUrl: row.spotify_url,
-  };
-}
-
-function mapRowToReview(row: ReviewRow): StoredReview {
-  const reviewMode = VALID_MODES.includes(row.review_mode) ? row.review_mode : 'review';
-  return {
-    id: row.review_id,
-    playlistId: row.playlist_id,
-    playlistName: row.playlist_name,
-    playlistOwner: row.playlist_owner,
-    playlistImage: row.playlist_image,
-    albums: [],
-    imageDataUrl: row.image_data_url,
-    reviewMode,
-    createdAt: row.created_at ? new Date(row.created_at).toISOString() : new Date().toISOString(),
-  };
-}
-
-export async function readReviews(): Promise<StoredReview[]> {
+  const imageUrl = await storeImageDataUrl('reviews', imageDataUrl);
   try {
-    await ensureSchema();
-
-    const rows = await withClient(async (client) => {
-      const { rows } = await client.sql<ReviewRow>`
-        SELECT
-          r.id          AS review_id,
-          r.playlist_id,
-          r.playlist_name,
-          r.playlist_owner,
-          r.playlist_image,
-          NULL           AS image_data_url,
-          r.review_mode,
-          r.created_at,
-          a.id          AS album_row_id,
-          a.album_id,
-          a.position,
-          a.name        AS album_name,
-          a.artist,
-          a.image       AS album_image,
-          a.release_date,
-          a.label,
-          a.notes,
-          a.rating,
-          a.spotify_url
-        FROM reviews r
-        LEFT JOIN review_albums a ON a.review_id = r.id
-        ORDER BY r.created_at DESC, a.position ASC;
-      `;
-      return rows;
-    });
-
-    const grouped = new Map<string, StoredReview>();
-
-    for (const row of rows) {
-      let review = grouped.get(row.review_id);
-      if (!review) {
-        review = mapRowToReview(row);
-        grouped.set(row.review_id, review);
-      }
-
-      const album = mapRowToAlbum(row);
-      if (album) {
-        review.albums.push(album);
-      }
+    const review = await reviewRepository.updateReview(id, { ...update, imageUrl });
+    if (!review) {
+      // Deleted or trashed since the lookup above, so nothing points at the new upload
+      await deleteStoredImage(imageUrl);
+    } else if (previous.imageUrl !== imageUrl) {
+      await deleteStoredImage(previous.imageUrl);
     }
-
-    return Array.from(grouped.values());
+    return review;
   } catch (error) {
-    console.error('Failed to read reviews; returning empty list.', error);
-    return [];
+    await deleteStoredImage(imageUrl);
+    throw error;
   }
 }
 
-export async function addReview(input: ReviewInput): Promise<StoredReview> {
-  await ensureSchema();
-
-  const reviewId = randomUUID();
-  const createdAt = new Date();
-
-  await withClient(async (client) => {
-    await client.sql`BEGIN`;
+export const getReviewEditAccess: ReviewRepository['getReviewEditAccess'] = (id, token) =>
+  reviewRepository.getReviewEditAccess(id, token);
 
-    try {
-      await client.sql`
-        INSERT INTO reviews (
-          id,
-          playlist_id,
-          playlist_name,
-          playlist_owner,
-          playlist_image,
-          image_data_url,
-          review_mode,
-          created_at
-        ) VALUES (
-          ${reviewId}::uuid,
-          ${input.playlistId},
-          ${input.playlistName},
-          ${input.playlistOwner},
-          ${input.playlistImage},
-          ${input.imageDataUrl},
-          ${input.reviewMode},
-          ${createdAt.toISOString()}::timestamptz
-        );
-      `;
+/** Move a review to the trash; its image stays in blob storage until the review is purged. */
+export const deleteReviewById: ReviewRepository['deleteReviewById'] = (id) => reviewRepository.deleteReviewById(id);
 
-      for (let position = 0; position < input.albums.length; position += 1) {
-        const album = input.albums[position];
-        await client.sql`
-          INSERT INTO review_albums (
-            id,
-            review_id,
-            album_id,
-            position,
-            name,
-            artist,
-            image,
-            release_date,
-            label,
-            notes,
-            rating,
-            spotify_url
-          ) VALUES (
-            ${randomUUID()}::uuid,
-            ${reviewId}::uuid,
-            ${album.id},
-            ${position},
-            ${album.name},
-            ${album.artist},
-            ${album.image},
-            ${album.releaseDate},
-            ${album.label},
-            ${album.notes},
-            ${album.rating},
-            ${album.spotifyUrl}
-          );
-        `;
-      }
+export const listTrashedReviews: ReviewRepository['listTrashedReviews'] = (limit) =>
+  reviewRepository.listTrashedReviews(limit);
 
-      await client.sql`COMMIT`;
-    } catch (error) {
-      await client.sql`ROLLBACK`;
-      throw error;
-    }
-  });
+export const restoreReviewById: ReviewRepository['restoreReviewById'] = (id) => reviewRepository.restoreReviewById(id);
 
-  return {
-    id: reviewId,
-    playlistId: input.playlistId,
-    playlistName: input.playlistName,
-    playlistOwner: input.playlistOwner,
-    playlistImage: input.playlistImage,
-    albums: input.albums,
-    imageDataUrl: input.imageDataUrl,
-    reviewMode: input.reviewMode,
-    createdAt: createdAt.toISOString(),
-  } satisfies StoredReview;
+/** Permanently remove a trashed review and its exported image. */
+export async function purgeReviewById(id: string): Promise<boolean> {
+  const purged = await reviewRepository.purgeReviewById(id);
+  await deleteStoredImage(purged?.imageUrl ?? null);
+  return Boolean(purged);
 }
 
-export async function getReviewById(id: string): Promise<StoredReview | null> {
-  await ensureSchema();
-
-  const rows = await withClient(async (client) => {
-    const { rows } = await client.sql<ReviewRow>`
-      SELECT
-        r.id          AS review_id,
-        r.playlist_id,
-        r.playlist_name,
-        r.playlist_owner,
-        r.playlist_image,
-        r.image_data_url,
-        r.review_mode,
-        r.created_at,
-        a.id          AS album_row_id,
-        a.album_id,
-        a.position,
-        a.name        AS album_name,
-        a.artist,
-        a.image       AS album_image,
-        a.release_date,
-        a.label,
-        a.notes,
-        a.rating,
-        a.spotify_url
-      FROM reviews r
-      LEFT JOIN review_albums a ON a.review_id = r.id
-      WHERE r.id = ${id}::uuid
-      ORDER BY a.position ASC;
-    `;
-    return rows;
-  });
-
-  if (rows.length === 0) {
-    return null;
-  }
-
-  const review = mapRowToReview(rows[0]);
-  for (const row of rows) {
-    const album = mapRowToAlbum(row);
-    if (album) {
-      review.albums.push(album);
-    }
+/** Permanently remove reviews trashed before `cutoff`, with their images. Returns how many went. */
+export async function purgeReviewsDeletedBefore(cutoff: string): Promise<number> {
+  const purged = await reviewRepository.purgeReviewsDeletedBefore(cutoff);
+  for (const entry of purged) {
+    await deleteStoredImage(entry.imageUrl);
   }
-
-  return review;
-}
-
-export async function deleteReviewById(id: string): Promise<boolean> {
-  await ensureSchema();
-
-  const affectedRows = await withClient(async (client) => {
-    const result = await client.sql`
-      DELETE FROM reviews
-      WHERE id = ${id}::uuid;
-    `;
-    return result.rowCount ?? 0;
-  });
-
-  return affectedRows > 0;
+  return purged.length;
 }
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseSearchQuery } from './searchQuery';
+import { memoryReviewRepository, memorySearchRepository } from './storage/memoryStore';
+
+const searchFor = (q: string) => {
+  const query = parseSearchQuery(new URLSearchParams({ q }));
+  assert.ok(query);
+  return memorySearchRepository.search(query);
+};
+
+describe('memory search', () => {
+  it('finds albums by a punctuated artist name', async () => {
+    await memoryReviewRepository.addReview({
+      playlistId: 'highway',
+      playlistName: 'Highway Hits',
+      playlistOwner: 'sam',
+      playlistImage: null,
+      imageUrl: null,
+      reviewMode: 'review',
+      filters: null,
+      albums: [
+        {
+          id: 'back-in-black',
+          name: 'Back in Black',
+          artist: 'AC/DC',
+          image: null,
+          releaseDate: '1980',
+          label: 'Albert',
+          notes: '',
+          rating: null,
+          spotifyUrl: null,
+        },
+      ],
+    });
+
+    for (const q of ['AC/DC', 'ac/dc back', 'acdc back', 'AC']) {
+      const results = await searchFor(q);
+      const expected = q === 'acdc back' ? [] : ['Back in Black'];
+      assert.deepEqual(
+        results.filter((result) => result.type === 'album').map((result) => result.name),
+        expected,
+        q
+      );
+    }
+  });
+
+  it('rejects queries without letters or digits', () => {
+    assert.equal(parseSearchQuery(new URLSearchParams({ q: '/// &&' })), null);
+  });
+});
@@ -0,0 +1,5 @@
+import type { SearchRepository } from '@/types/storage';
+import { searchRepository } from './storage';
+
+/** Ranked reviews, tier lists and albums matching every search term; trashed entries never match. */
+export const search: SearchRepository['search'] = (query) => searchRepository.search(query);
@@ -0,0 +1,52 @@
+import type { SearchQuery, SearchResultType } from '@/types/search';
+
+export const MIN_SEARCH_LENGTH = 2;
+export const MAX_SEARCH_LENGTH = 100;
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+/** Extra words are dropped so one request cannot build an arbitrarily large tsquery. */
+export const MAX_SEARCH_TERMS = 8;
+
+const SEARCH_RESULT_TYPES: SearchResultType[] = ['review', 'tier-list', 'album'];
+// Built from a string because the tsconfig's default target rejects the `u` flag in regex literals
+const WORD = new RegExp('[\\p{L}\\p{N}]+', 'gu');
+
+/** Lower-cased letter and digit runs, split the way the 'simple' text search configuration splits words. */
+export function toSearchWords(text: string): string[] {
+  return text.toLowerCase().match(WORD) ?? [];
+}
+
+/**
+ * Read `q`, `type` (comma-separated result types, default all) and `limit` from a query string.
+ * Returns null when `q` is missing, too short or too long, or another value is malformed.
+ */
+export function parseSearchQuery(params: URLSearchParams): SearchQuery | null {
+  const text = params.get('q')?.trim() ?? '';
+  if (text.length < MIN_SEARCH_LENGTH || text.length > MAX_SEARCH_LENGTH) {
+    return null;
+  }
+
+  const terms = Array.from(new Set(toSearchWords(text))).slice(0, MAX_SEARCH_TERMS);
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const limitParam = params.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_SEARCH_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1) {
+    return null;
+  }
+
+  const typeParam = params.get('type');
+  const types = typeParam ? typeParam.split(',').map((type) => type.trim()) : SEARCH_RESULT_TYPES;
+  if (types.length === 0 || types.some((type) => !SEARCH_RESULT_TYPES.includes(type as SearchResultType))) {
+    return null;
+  }
+
+  return {
+    text,
+    terms,
+    types: types as SearchResultType[],
+    limit: Math.min(limit, MAX_SEARCH_LIMIT),
+  };
+}
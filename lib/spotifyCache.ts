@@ -0,0 +1,169 @@
+import { db } from '@vercel/postgres';
+import { ensureMigrations } from '@/lib/migrations';
+
+export type SpotifyCacheKind = 'album' | 'tracks' | 'search';
+
+type CacheStore = {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+};
+
+type CacheCounters = {
+  hits: number;
+  misses: number;
+};
+
+export type SpotifyCacheStats = {
+  store: 'memory' | 'postgres';
+  maxEntries: number;
+  kinds: Record<SpotifyCacheKind, CacheCounters & { ttlSeconds: number }>;
+};
+
+const readPositiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const ALBUM_TTL_SECONDS = readPositiveNumber(process.env.SPOTIFY_CACHE_ALBUM_TTL_SECONDS, 60 * 60 * 24);
+const TTL_SECONDS: Record<SpotifyCacheKind, number> = {
+  album: ALBUM_TTL_SECONDS,
+  tracks: readPositiveNumber(process.env.SPOTIFY_CACHE_TRACKS_TTL_SECONDS, ALBUM_TTL_SECONDS),
+  search: readPositiveNumber(process.env.SPOTIFY_CACHE_SEARCH_TTL_SECONDS, 60 * 60),
+};
+const MAX_ENTRIES = readPositiveNumber(process.env.SPOTIFY_CACHE_MAX_ENTRIES, 5000);
+const STORE_KIND: SpotifyCacheStats['store'] =
+  process.env.SPOTIFY_CACHE_STORE === 'postgres' ? 'postgres' : 'memory';
+// Schema changes the Postgres store relies on; see lib/migrations
+const REQUIRED_MIGRATIONS = ['0011_spotify_cache'];
+// Postgres prunes in batches so not every write pays for the cleanup query
+const POSTGRES_PRUNE_INTERVAL = 100;
+
+const counters: Record<SpotifyCacheKind, CacheCounters> = {
+  album: { hits: 0, misses: 0 },
+  tracks: { hits: 0, misses: 0 },
+  search: { hits: 0, misses: 0 },
+};
+
+function createMemoryStore(maxEntries: number): CacheStore {
+  // Map iteration follows insertion order, so re-inserting on read keeps it LRU
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) {
+        return undefined;
+      }
+      entries.set(key, entry);
+      return entry.value;
+    },
+    async set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) {
+          break;
+        }
+        entries.delete(oldestKey);
+      }
+    },
+  };
+}
+
+function createPostgresStore(maxEntries: number): CacheStore {
+  let writesSincePrune = 0;
+
+  const ensureSchema = () => ensureMigrations(REQUIRED_MIGRATIONS);
+
+  const prune = async () => {
+    await db.sql`DELETE FROM spotify_cache WHERE expires_at <= NOW();`;
+    await db.sql`
+      DELETE FROM spotify_cache
+      WHERE key IN (
+        SELECT key FROM spotify_cache
+        ORDER BY accessed_at DESC
+        OFFSET ${maxEntries}
+      );
+    `;
+  };
+
+  return {
+    async get(key) {
+      await ensureSchema();
+      const { rows } = await db.sql<{ value: unknown }>`
+        UPDATE spotify_cache
+        SET accessed_at = NOW()
+        WHERE key = ${key} AND expires_at > NOW()
+        RETURNING value;
+      `;
+      return rows.length > 0 ? rows[0].value : undefined;
+    },
+    async set(key, value, ttlMs) {
+      await ensureSchema();
+      const expiresAt = new Date(Date.now() + ttlMs).toISOString();
+      await db.sql`
+        INSERT INTO spotify_cache (key, value, expires_at, accessed_at)
+        VALUES (${key}, ${JSON.stringify(value)}::jsonb, ${expiresAt}::timestamptz, NOW())
+        ON CONFLICT (key) DO UPDATE
+        SET value = EXCLUDED.value,
+            expires_at = EXCLUDED.expires_at,
+            accessed_at = EXCLUDED.accessed_at;
+      `;
+      writesSincePrune += 1;
+      if (writesSincePrune >= POSTGRES_PRUNE_INTERVAL) {
+        writesSincePrune = 0;
+        await prune();
+      }
+    },
+  };
+}
+
+const store: CacheStore =
+  STORE_KIND === 'postgres' ? createPostgresStore(MAX_ENTRIES) : createMemoryStore(MAX_ENTRIES);
+
+const buildKey = (kind: SpotifyCacheKind, key: string) => `${kind}:${key}`;
+
+/** Lowercases and collapses whitespace so equivalent searches share a cache entry. */
+export const normalizeSearchQuery = (query: string) =>
+  query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Returns the cached value or undefined on a miss. Store failures are treated as misses. */
+export async function getCached<T>(kind: SpotifyCacheKind, key: string): Promise<T | undefined> {
+  let value: unknown;
+  try {
+    value = await store.get(buildKey(kind, key));
+  } catch (error) {
+    console.error('Spotify cache read failed', error);
+  }
+  if (value === undefined) {
+    counters[kind].misses += 1;
+    return undefined;
+  }
+  counters[kind].hits += 1;
+  return value as T;
+}
+
+export async function setCached(kind: SpotifyCacheKind, key: string, value: unknown) {
+  try {
+    await store.set(buildKey(kind, key), value, TTL_SECONDS[kind] * 1000);
+  } catch (error) {
+    console.error('Spotify cache write failed', error);
+  }
+}
+
+export function getSpotifyCacheStats(): SpotifyCacheStats {
+  return {
+    store: STORE_KIND,
+    maxEntries: MAX_ENTRIES,
+    kinds: {
+      album: { ...counters.album, ttlSeconds: TTL_SECONDS.album },
+      tracks: { ...counters.tracks, ttlSeconds: TTL_SECONDS.tracks },
+      search: { ...counters.search, ttlSeconds: TTL_SECONDS.search },
+    },
+  };
+}
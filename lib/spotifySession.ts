@@ -0,0 +1,124 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { cookies } from 'next/headers';
+import { refreshUserTokens, type SpotifyUserProfile, type SpotifyUserTokens } from '@/utils/spotifyAuth';
+
+export type SpotifySession = SpotifyUserTokens & {
+  user: SpotifyUserProfile;
+};
+
+type PkceState = {
+  verifier: string;
+  state: string;
+  returnTo: string;
+};
+
+const SESSION_COOKIE = 'spotify_session';
+const PKCE_COOKIE = 'spotify_pkce';
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30;
+const PKCE_MAX_AGE_SECONDS = 60 * 10;
+// Refresh a little early so a token never expires halfway through a paged request
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+const SESSION_SECRET = process.env.SPOTIFY_SESSION_SECRET;
+
+export function isSpotifyLoginConfigured() {
+  return Boolean(SESSION_SECRET && process.env.SPOTIFY_CLIENT_ID);
+}
+
+const getKey = () => {
+  if (!SESSION_SECRET) {
+    throw new Error('SPOTIFY_SESSION_SECRET is not set');
+  }
+  return createHash('sha256').update(SESSION_SECRET).digest();
+};
+
+/** Encrypt and authenticate a JSON payload (AES-256-GCM) for storage in a cookie. */
+function seal(payload: unknown): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join('.');
+}
+
+function unseal<T>(value: string | undefined): T | null {
+  if (!value || !SESSION_SECRET) {
+    return null;
+  }
+  try {
+    const [iv, tag, encrypted] = value.split('.').map((part) => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', getKey(), iv);
+    decipher.setAuthTag(tag);
+    const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()]);
+    return JSON.parse(decrypted.toString('utf8')) as T;
+  } catch {
+    // Tampered cookies and cookies sealed with a rotated secret are treated as signed out
+    return null;
+  }
+}
+
+const cookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge,
+});
+
+export function readSpotifySession(): SpotifySession | null {
+  return unseal<SpotifySession>(cookies().get(SESSION_COOKIE)?.value);
+}
+
+export function saveSpotifySession(session: SpotifySession) {
+  cookies().set(SESSION_COOKIE, seal(session), cookieOptions(SESSION_MAX_AGE_SECONDS));
+}
+
+export function clearSpotifySession() {
+  cookies().delete(SESSION_COOKIE);
+}
+
+export function savePkceState(state: PkceState) {
+  cookies().set(PKCE_COOKIE, seal(state), cookieOptions(PKCE_MAX_AGE_SECONDS));
+}
+
+/** Read and remove the PKCE verifier stored by the login route. */
+export function consumePkceState(): PkceState | null {
+  const state = unseal<PkceState>(cookies().get(PKCE_COOKIE)?.value);
+  cookies().delete(PKCE_COOKIE);
+  return state;
+}
+
+/**
+ * Returns the signed-in user's session, refreshing the access token when it is about to expire.
+ * Returns null when nobody is signed in or the refresh token has been revoked.
+ */
+export async function getActiveSpotifySession(): Promise<SpotifySession | null> {
+  const session = readSpotifySession();
+  if (!session) {
+    return null;
+  }
+  if (session.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return session;
+  }
+
+  try {
+    const tokens = await refreshUserTokens(session.refreshToken);
+    const refreshed = { ...session, ...tokens, scope: tokens.scope || session.scope };
+    saveSpotifySession(refreshed);
+    return refreshed;
+  } catch (error) {
+    console.error('Failed to refresh Spotify session', error);
+    clearSpotifySession();
+    return null;
+  }
+}
+
+export async function getSpotifyUserAccessToken(): Promise<string | null> {
+  const session = await getActiveSpotifySession();
+  return session?.accessToken ?? null;
+}
+
+/** Sessions created before a scope was added must sign in again to grant it. */
+export function hasSpotifyScopes(session: SpotifySession, scopes: string[]) {
+  const granted = session.scope.split(' ');
+  return scopes.every((scope) => granted.includes(scope));
+}
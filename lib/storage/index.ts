@@ -0,0 +1,24 @@
+import type { ReviewRepository, SearchRepository, StorageDriver, TierListRepository } from '@/types/storage';
+import { memoryReviewRepository, memorySearchRepository, memoryTierListRepository } from './memoryStore';
+import { postgresReviewRepository } from './postgresReviews';
+import { postgresSearchRepository } from './postgresSearch';
+import { postgresTierListRepository } from './postgresTierLists';
+
+// STORAGE_DRIVER=memory keeps reviews and tier lists in process (optionally snapshotted to STORAGE_FILE)
+export const storageDriver: StorageDriver = process.env.STORAGE_DRIVER === 'memory' ? 'memory' : 'postgres';
+
+export const reviewRepository: ReviewRepository =
+  storageDriver === 'memory' ? memoryReviewRepository : postgresReviewRepository;
+
+export const tierListRepository: TierListRepository =
+  storageDriver === 'memory' ? memoryTierListRepository : postgresTierListRepository;
+
+export const searchRepository: SearchRepository =
+  storageDriver === 'memory' ? memorySearchRepository : postgresSearchRepository;
+
+/** False when the Postgres driver is selected but no connection string is set. */
+export function isStorageConfigured() {
+  return (
+    storageDriver === 'memory' || Boolean(process.env.POSTGRES_URL || process.env.POSTGRES_URL_NON_POOLING)
+  );
+}
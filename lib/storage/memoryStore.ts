@@ -0,0 +1,418 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { createEditToken, matchesEditToken } from '@/lib/editTokens';
+import { createDefaultTierMetadata } from '@/data/tierMaker';
+import type { StoredReview } from '@/types/review';
+import type { StoredTierList, TierListReference } from '@/types/tier-list';
+import { toPage } from '@/lib/pagination';
+import { toSearchWords } from '@/lib/searchQuery';
+import { toReviewSummary, toTierListSummary } from './summaries';
+import type { SearchResult } from '@/types/search';
+import type {
+  ListQuery,
+  PurgedEntry,
+  ReviewRepository,
+  SearchRepository,
+  TierListRepository,
+  TrashedEntry,
+} from '@/types/storage';
+
+type Owned<T> = T & { editTokenHash: string | null; deletedAt?: string | null };
+
+type MemoryData = {
+  reviews: Owned<StoredReview>[];
+  tierLists: Owned<StoredTierList>[];
+};
+
+// Optional JSON snapshot so local data survives restarts; without it everything lives in process memory
+const STORAGE_FILE = process.env.STORAGE_FILE ? path.resolve(process.env.STORAGE_FILE) : null;
+
+// Kept on globalThis so `next dev` module reloads do not wipe the data
+const globalStore = globalThis as typeof globalThis & { __memoryStoreData?: Promise<MemoryData> };
+
+async function loadData(): Promise<MemoryData> {
+  if (!STORAGE_FILE) {
+    return { reviews: [], tierLists: [] };
+  }
+  try {
+    const parsed = JSON.parse(await readFile(STORAGE_FILE, 'utf8'));
+    return {
+      reviews: Array.isArray(parsed?.reviews) ? parsed.reviews : [],
+      tierLists: Array.isArray(parsed?.tierLists) ? parsed.tierLists : [],
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Failed to read ${STORAGE_FILE}; starting with an empty store.`, error);
+    }
+    return { reviews: [], tierLists: [] };
+  }
+}
+
+function getData() {
+  if (!globalStore.__memoryStoreData) {
+    globalStore.__memoryStoreData = loadData();
+  }
+  return globalStore.__memoryStoreData;
+}
+
+async function persist(data: MemoryData) {
+  if (!STORAGE_FILE) {
+    return;
+  }
+  await mkdir(path.dirname(STORAGE_FILE), { recursive: true });
+  await writeFile(STORAGE_FILE, JSON.stringify(data, null, 2));
+}
+
+type Listed = { id: string; createdAt: string; playlistId: string; playlistOwner: string };
+
+// Same order as the Postgres listing: newest first, ties broken by id descending
+const byNewest = (a: Listed, b: Listed) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || b.id.localeCompare(a.id);
+
+const matchesListQuery = (entry: Listed, query: ListQuery) => {
+  const createdAt = new Date(entry.createdAt).getTime();
+  if (query.playlistId && entry.playlistId !== query.playlistId) return false;
+  if (query.owner && entry.playlistOwner.toLowerCase() !== query.owner.toLowerCase()) return false;
+  if (query.createdFrom && createdAt < new Date(query.createdFrom).getTime()) return false;
+  if (query.createdTo && createdAt > new Date(query.createdTo).getTime()) return false;
+  // Entries strictly after the cursor in listing order
+  return !query.cursor || byNewest({ ...entry, ...query.cursor }, entry) < 0;
+};
+
+// Copies keep callers from mutating stored entries, and drop the token hash and trash marker
+function toPublic<T extends object>(entry: Owned<T>): T {
+  const copy: Partial<Owned<T>> = structuredClone(entry);
+  delete copy.editTokenHash;
+  delete copy.deletedAt;
+  return copy as T;
+}
+
+type Trashable = Owned<{
+  id: string;
+  playlistName: string;
+  playlistOwner: string;
+  playlistImage: string | null;
+  imageUrl: string | null;
+  createdAt: string;
+}>;
+
+// Trashed entries keep their data but only the trash methods below can see them
+const isLive = (entry: Trashable) => !entry.deletedAt;
+
+const findLive = <T extends Trashable>(entries: T[], id: string) =>
+  entries.find((entry) => entry.id === id && isLive(entry));
+
+function trashEntry(entries: Trashable[], id: string) {
+  const entry = findLive(entries, id);
+  if (entry) {
+    entry.deletedAt = new Date().toISOString();
+  }
+  return Boolean(entry);
+}
+
+function restoreEntry(entries: Trashable[], id: string) {
+  const entry = entries.find((candidate) => candidate.id === id && !isLive(candidate));
+  if (entry) {
+    entry.deletedAt = null;
+  }
+  return Boolean(entry);
+}
+
+function listTrashed(entries: Trashable[], limit: number): TrashedEntry[] {
+  return entries
+    .filter((entry) => !isLive(entry))
+    .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!) || b.id.localeCompare(a.id))
+    .slice(0, limit)
+    .map((entry) => ({
+      id: entry.id,
+      playlistName: entry.playlistName,
+      playlistOwner: entry.playlistOwner,
+      playlistImage: entry.playlistImage,
+      createdAt: entry.createdAt,
+      deletedAt: entry.deletedAt!,
+    }));
+}
+
+// Removes matching trashed entries in place and reports what went
+function purgeEntries(entries: Trashable[], matches: (deletedAt: string, id: string) => boolean): PurgedEntry[] {
+  const purged: PurgedEntry[] = [];
+  for (let index = entries.length - 1; index >= 0; index -= 1) {
+    const entry = entries[index];
+    if (entry.deletedAt && matches(entry.deletedAt, entry.id)) {
+      purged.push({ id: entry.id, imageUrl: entry.imageUrl });
+      entries.splice(index, 1);
+    }
+  }
+  return purged;
+}
+
+// Remix links are resolved on read so deleted sources drop out, as with ON DELETE SET NULL in Postgres
+function remixReference(data: MemoryData, id: string | null | undefined): TierListReference | null {
+  const source = id ? findLive(data.tierLists, id) : undefined;
+  return source ? { id: source.id, playlistName: source.playlistName } : null;
+}
+
+function toPublicTierList(data: MemoryData, entry: Owned<StoredTierList>): StoredTierList {
+  return { ...toPublic(entry), remixedFrom: remixReference(data, entry.remixedFrom?.id) };
+}
+
+// Field weights for the matcher below, in the same order as the tsvector weights A-D in Postgres
+const SEARCH_WEIGHTS = [1, 0.4, 0.2, 0.1];
+
+/**
+ * Simpler stand-in for Postgres full-text search: every term must prefix a word in one of the fields
+ * (listed most important first), and the score adds up the weight of the best field each term hit.
+ */
+function scoreSearchMatch(terms: string[], fields: (string | null)[]): number {
+  const fieldWords = fields.map((field) => toSearchWords(field ?? ''));
+  let score = 0;
+  for (const term of terms) {
+    const index = fieldWords.findIndex((words) => words.some((word) => word.startsWith(term)));
+    if (index === -1) {
+      return 0;
+    }
+    score += SEARCH_WEIGHTS[index];
+  }
+  return score / terms.length;
+}
+
+export const memoryReviewRepository: ReviewRepository = {
+  async listReviewSummaries(query) {
+    const data = await getData();
+    const matches = data.reviews
+      .filter((review) => isLive(review) && matchesListQuery(review, query))
+      .filter((review) => !query.reviewMode || review.reviewMode === query.reviewMode)
+      .sort(byNewest)
+      .slice(0, query.limit + 1)
+      .map(toReviewSummary);
+    return toPage(matches, query.limit);
+  },
+
+  async addReview(input) {
+    const data = await getData();
+    const editToken = createEditToken();
+    const review: StoredReview = {
+      ...structuredClone(input),
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      updatedAt: null,
+    };
+    data.reviews.push({ ...review, editTokenHash: editToken.hash });
+    await persist(data);
+    return { ...review, editToken: editToken.token };
+  },
+
+  async getReviewById(id) {
+    const data = await getData();
+    const review = findLive(data.reviews, id);
+    return review ? toPublic(review) : null;
+  },
+
+  async updateReview(id, update) {
+    const data = await getData();
+    const review = findLive(data.reviews, id);
+    if (!review) {
+      return null;
+    }
+    const changes = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined));
+    Object.assign(review, structuredClone(changes), { updatedAt: new Date().toISOString() });
+    await persist(data);
+    return toPublic(review);
+  },
+
+  async getReviewEditAccess(id, token) {
+    const data = await getData();
+    const review = findLive(data.reviews, id);
+    if (!review) {
+      return 'not-found';
+    }
+    return matchesEditToken(token, review.editTokenHash) ? 'granted' : 'denied';
+  },
+
+  async deleteReviewById(id) {
+    const data = await getData();
+    const deleted = trashEntry(data.reviews, id);
+    if (deleted) {
+      await persist(data);
+    }
+    return deleted;
+  },
+
+  async listTrashedReviews(limit) {
+    const data = await getData();
+    return listTrashed(data.reviews, limit);
+  },
+
+  async restoreReviewById(id) {
+    const data = await getData();
+    const restored = restoreEntry(data.reviews, id);
+    if (restored) {
+      await persist(data);
+    }
+    return restored;
+  },
+
+  async purgeReviewById(id) {
+    const data = await getData();
+    const [purged] = purgeEntries(data.reviews, (_deletedAt, entryId) => entryId === id);
+    if (purged) {
+      await persist(data);
+    }
+    return purged ?? null;
+  },
+
+  async purgeReviewsDeletedBefore(cutoff) {
+    const data = await getData();
+    const purged = purgeEntries(data.reviews, (deletedAt) => new Date(deletedAt) < new Date(cutoff));
+    if (purged.length > 0) {
+      await persist(data);
+    }
+    return purged;
+  },
+};
+
+export const memoryTierListRepository: TierListRepository = {
+  async listTierListSummaries(query) {
+    const data = await getData();
+    const matches = data.tierLists
+      .filter((tierList) => isLive(tierList) && matchesListQuery(tierList, query))
+      .sort(byNewest)
+      .slice(0, query.limit + 1)
+      .map(toTierListSummary);
+    return toPage(matches, query.limit);
+  },
+
+  async addTierList(input) {
+    const data = await getData();
+    const editToken = createEditToken();
+    const tierList: StoredTierList = {
+      ...structuredClone(input),
+      tierMetadata: structuredClone(input.tierMetadata ?? createDefaultTierMetadata()),
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      updatedAt: null,
+      remixedFrom: remixReference(data, input.remixedFrom),
+    };
+    data.tierLists.push({ ...tierList, editTokenHash: editToken.hash });
+    await persist(data);
+    return { ...tierList, editToken: editToken.token };
+  },
+
+  async getTierListById(id) {
+    const data = await getData();
+    const tierList = findLive(data.tierLists, id);
+    return tierList ? toPublicTierList(data, tierList) : null;
+  },
+
+  async updateTierList(id, update) {
+    const data = await getData();
+    const tierList = findLive(data.tierLists, id);
+    if (!tierList) {
+      return null;
+    }
+    Object.assign(tierList, structuredClone(update), { updatedAt: new Date().toISOString() });
+    await persist(data);
+    return toPublicTierList(data, tierList);
+  },
+
+  async getTierListEditAccess(id, token) {
+    const data = await getData();
+    const tierList = findLive(data.tierLists, id);
+    if (!tierList) {
+      return 'not-found';
+    }
+    return matchesEditToken(token, tierList.editTokenHash) ? 'granted' : 'denied';
+  },
+
+  async deleteTierListById(id) {
+    const data = await getData();
+    const deleted = trashEntry(data.tierLists, id);
+    if (deleted) {
+      await persist(data);
+    }
+    return deleted;
+  },
+
+  async listTrashedTierLists(limit) {
+    const data = await getData();
+    return listTrashed(data.tierLists, limit);
+  },
+
+  async restoreTierListById(id) {
+    const data = await getData();
+    const restored = restoreEntry(data.tierLists, id);
+    if (restored) {
+      await persist(data);
+    }
+    return restored;
+  },
+
+  async purgeTierListById(id) {
+    const data = await getData();
+    const [purged] = purgeEntries(data.tierLists, (_deletedAt, entryId) => entryId === id);
+    if (purged) {
+      await persist(data);
+    }
+    return purged ?? null;
+  },
+
+  async purgeTierListsDeletedBefore(cutoff) {
+    const data = await getData();
+    const purged = purgeEntries(data.tierLists, (deletedAt) => new Date(deletedAt) < new Date(cutoff));
+    if (purged.length > 0) {
+      await persist(data);
+    }
+    return purged;
+  },
+};
+
+export const memorySearchRepository: SearchRepository = {
+  async search(query) {
+    const data = await getData();
+    const results: SearchResult[] = [];
+    const parents = [
+      ...data.reviews.filter(isLive).map((entry) => ({ type: 'review' as const, entry })),
+      ...data.tierLists.filter(isLive).map((entry) => ({ type: 'tier-list' as const, entry })),
+    ];
+
+    for (const { type, entry } of parents) {
+      const rank = scoreSearchMatch(query.terms, [entry.playlistName, entry.playlistOwner]);
+      if (rank > 0 && query.types.includes(type)) {
+        results.push({
+          type,
+          id: entry.id,
+          playlistName: entry.playlistName,
+          playlistOwner: entry.playlistOwner,
+          playlistImage: entry.playlistImage,
+          createdAt: entry.createdAt,
+          rank,
+        });
+      }
+      if (!query.types.includes('album')) {
+        continue;
+      }
+      for (const album of entry.albums) {
+        const albumRank = scoreSearchMatch(query.terms, [album.name, album.artist, album.label, album.notes]);
+        if (albumRank > 0) {
+          results.push({
+            type: 'album',
+            albumId: album.id,
+            name: album.name,
+            artist: album.artist,
+            image: album.image,
+            label: album.label,
+            notes: album.notes,
+            foundIn: { type, id: entry.id, playlistName: entry.playlistName },
+            createdAt: entry.createdAt,
+            rank: albumRank,
+          });
+        }
+      }
+    }
+
+    return results
+      .sort((a, b) => b.rank - a.rank || b.createdAt.localeCompare(a.createdAt))
+      .slice(0, query.limit);
+  },
+};
@@ -0,0 +1,558 @@
+import { randomUUID } from 'crypto';
+import { db } from '@vercel/postgres';
+import type { VercelPoolClient } from '@vercel/postgres';
+import type {
+  CreatedReview,
+  ReviewRecordInput,
+  ReviewRecordUpdate,
+  StoredAlbum,
+  StoredReview,
+  ReviewMode,
+  ReviewSummary,
+} from '@/types/review';
+import { normalizeReviewFilters } from '@/utils/reviewFilters';
+import { createEditToken, matchesEditToken, type EditAccess } from '@/lib/editTokens';
+import { ensureMigrations } from '@/lib/migrations';
+import { SUMMARY_PREVIEW_ALBUMS, toPage } from '@/lib/pagination';
+import type { Page, PurgedEntry, ReviewListQuery, ReviewRepository, TrashedEntry } from '@/types/storage';
+
+type ReviewRow = {
+  review_id: string;
+  playlist_id: string;
+  playlist_name: string;
+  playlist_owner: string;
+  playlist_image: string | null;
+  image_url: string | null;
+  review_mode: ReviewMode;
+  filters: unknown | null;
+  created_at: Date | null;
+  updated_at: Date | null;
+  album_row_id: string | null;
+  album_id: string | null;
+  position: number | null;
+  album_name: string | null;
+  artist: string | null;
+  album_image: string | null;
+  release_date: string | null;
+  label: string | null;
+  notes: string | null;
+  rating: number | null;
+  spotify_url: string | null;
+};
+
+type ReviewSummaryRow = {
+  id: string;
+  playlist_id: string;
+  playlist_name: string;
+  playlist_owner: string;
+  playlist_image: string | null;
+  review_mode: ReviewMode;
+  created_at: Date;
+  cursor_created_at: string;
+  updated_at: Date | null;
+  album_count: number;
+  preview_albums: ReviewSummary['previewAlbums'];
+};
+
+type TrashedRow = {
+  id: string;
+  playlist_name: string;
+  playlist_owner: string;
+  playlist_image: string | null;
+  created_at: Date;
+  deleted_at: Date;
+};
+
+type PurgedRow = {
+  id: string;
+  image_url: string | null;
+};
+
+const VALID_MODES: ReviewMode[] = ['review', 'plain', 'rating', 'both'];
+
+// Schema changes this store's queries rely on; see lib/migrations
+const REQUIRED_MIGRATIONS = [
+  '0001_create_reviews',
+  '0003_review_filters_and_updates',
+  '0004_edit_tokens',
+  '0005_image_urls',
+  '0009_soft_delete',
+];
+
+async function withClient<T>(handler: (client: VercelPoolClient) => Promise<T>): Promise<T> {
+  const client = await db.connect();
+  try {
+    return await handler(client);
+  } finally {
+    client.release();
+  }
+}
+
+function ensureSchema() {
+  return ensureMigrations(REQUIRED_MIGRATIONS);
+}
+
+function mapRowToAlbum(row: ReviewRow): StoredAlbum | null {
+  if (!row.album_row_id || !row.album_id || row.album_name == null || row.artist == null) {
+    return null;
+  }
+
+  return {
+    id: row.album_id,
+    name: row.album_name,
+    artist: row.artist,
+    image: row.album_image,
+    releaseDate: row.release_date ?? '',
+    label: row.label,
+    notes: row.notes ?? '',
+    rating: row.rating == null ? null : Number(row.rating),
+    spotifyUrl: row.spotify_url,
+  };
+}
+
+function mapRowToReview(row: ReviewRow): StoredReview {
+  const reviewMode = VALID_MODES.includes(row.review_mode) ? row.review_mode : 'review';
+  return {
+    id: row.review_id,
+    playlistId: row.playlist_id,
+    playlistName: row.playlist_name,
+    playlistOwner: row.playlist_owner,
+    playlistImage: row.playlist_image,
+    albums: [],
+    imageUrl: row.image_url,
+    reviewMode,
+    filters: normalizeReviewFilters(row.filters),
+    createdAt: row.created_at ? new Date(row.created_at).toISOString() : new Date().toISOString(),
+    updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+  };
+}
+
+// One unnest-based INSERT per review instead of one round trip per album. The `sql` template
+// only takes scalar values, so the column arrays go through `query` as positional parameters.
+async function insertReviewAlbums(client: VercelPoolClient, reviewId: string, albums: StoredAlbum[]) {
+  if (albums.length === 0) {
+    return;
+  }
+
+  const startedAt = performance.now();
+  await client.query(
+    `
+      INSERT INTO review_albums (
+        id,
+        review_id,
+        album_id,
+        position,
+        name,
+        artist,
+        image,
+        release_date,
+        label,
+        notes,
+        rating,
+        spotify_url
+      )
+      SELECT
+        a.id,
+        $1::uuid,
+        a.album_id,
+        (a.ordinality - 1)::int,
+        a.name,
+        a.artist,
+        a.image,
+        a.release_date,
+        a.label,
+        a.notes,
+        a.rating,
+        a.spotify_url
+      FROM unnest(
+        $2::uuid[], $3::text[], $4::text[], $5::text[], $6::text[],
+        $7::text[], $8::text[], $9::text[], $10::real[], $11::text[]
+      ) WITH ORDINALITY AS a(id, album_id, name, artist, image, release_date, label, notes, rating, spotify_url, ordinality);
+    `,
+    [
+      reviewId,
+      albums.map(() => randomUUID()),
+      albums.map((album) => album.id),
+      albums.map((album) => album.name),
+      albums.map((album) => album.artist),
+      albums.map((album) => album.image),
+      albums.map((album) => album.releaseDate),
+      albums.map((album) => album.label),
+      albums.map((album) => album.notes),
+      albums.map((album) => album.rating),
+      albums.map((album) => album.spotifyUrl),
+    ]
+  );
+  console.info(`Inserted ${albums.length} review albums in ${Math.round(performance.now() - startedAt)}ms`);
+}
+
+async function listReviewSummaries(query: ReviewListQuery): Promise<Page<ReviewSummary>> {
+  await ensureSchema();
+
+  const rows = await withClient(async (client) => {
+    // Albums are aggregated per review in SQL, so the result has one row per review
+    const { rows } = await client.sql<ReviewSummaryRow>`
+      SELECT
+        r.id,
+        r.playlist_id,
+        r.playlist_name,
+        r.playlist_owner,
+        r.playlist_image,
+        r.review_mode,
+        r.created_at,
+        r.created_at::text AS cursor_created_at,
+        r.updated_at,
+        (SELECT COUNT(*) FROM review_albums a WHERE a.review_id = r.id)::int AS album_count,
+        COALESCE(
+          (
+            SELECT json_agg(json_build_object('name', p.name, 'artist', p.artist, 'image', p.image) ORDER BY p.position)
+            FROM (
+              SELECT name, artist, image, position
+              FROM review_albums a
+              WHERE a.review_id = r.id
+              ORDER BY position ASC
+              LIMIT ${SUMMARY_PREVIEW_ALBUMS}
+            ) p
+          ),
+          '[]'::json
+        ) AS preview_albums
+      FROM reviews r
+      WHERE r.deleted_at IS NULL
+        AND (${query.playlistId ?? null}::text IS NULL OR r.playlist_id = ${query.playlistId ?? null})
+        AND (${query.owner ?? null}::text IS NULL OR LOWER(r.playlist_owner) = LOWER(${query.owner ?? null}))
+        AND (${query.reviewMode ?? null}::text IS NULL OR r.review_mode = ${query.reviewMode ?? null})
+        AND (${query.createdFrom ?? null}::timestamptz IS NULL OR r.created_at >= ${query.createdFrom ?? null}::timestamptz)
+        AND (${query.createdTo ?? null}::timestamptz IS NULL OR r.created_at <= ${query.createdTo ?? null}::timestamptz)
+        AND (
+          ${query.cursor?.createdAt ?? null}::timestamptz IS NULL
+          OR (r.created_at, r.id) < (${query.cursor?.createdAt ?? null}::timestamptz, ${query.cursor?.id ?? null}::uuid)
+        )
+      ORDER BY r.created_at DESC, r.id DESC
+      LIMIT ${query.limit + 1};
+    `;
+    return rows;
+  });
+
+  const summaries = rows.map(
+    (row): ReviewSummary => ({
+      id: row.id,
+      playlistId: row.playlist_id,
+      playlistName: row.playlist_name,
+      playlistOwner: row.playlist_owner,
+      playlistImage: row.playlist_image,
+      reviewMode: VALID_MODES.includes(row.review_mode) ? row.review_mode : 'review',
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+      albumCount: row.album_count,
+      previewAlbums: row.preview_albums,
+    })
+  );
+  // Cursors use created_at as text so they keep Postgres' microsecond precision
+  return toPage(summaries, query.limit, (summary) => ({
+    createdAt: rows.find((row) => row.id === summary.id)?.cursor_created_at ?? summary.createdAt,
+    id: summary.id,
+  }));
+}
+
+/** Store a new review. The returned edit token is not persisted and cannot be recovered later. */
+async function addReview(input: ReviewRecordInput): Promise<CreatedReview> {
+  await ensureSchema();
+
+  const reviewId = randomUUID();
+  const createdAt = new Date();
+  const editToken = createEditToken();
+
+  await withClient(async (client) => {
+    await client.sql`BEGIN`;
+
+    try {
+      await client.sql`
+        INSERT INTO reviews (
+          id,
+          playlist_id,
+          playlist_name,
+          playlist_owner,
+          playlist_image,
+          image_url,
+          review_mode,
+          filters,
+          created_at,
+          edit_token_hash
+        ) VALUES (
+          ${reviewId}::uuid,
+          ${input.playlistId},
+          ${input.playlistName},
+          ${input.playlistOwner},
+          ${input.playlistImage},
+          ${input.imageUrl},
+          ${input.reviewMode},
+          ${input.filters ? JSON.stringify(input.filters) : null}::jsonb,
+          ${createdAt.toISOString()}::timestamptz,
+          ${editToken.hash}
+        );
+      `;
+
+      await insertReviewAlbums(client, reviewId, input.albums);
+
+      await client.sql`COMMIT`;
+    } catch (error) {
+      await client.sql`ROLLBACK`;
+      throw error;
+    }
+  });
+
+  return {
+    id: reviewId,
+    playlistId: input.playlistId,
+    playlistName: input.playlistName,
+    playlistOwner: input.playlistOwner,
+    playlistImage: input.playlistImage,
+    albums: input.albums,
+    imageUrl: input.imageUrl,
+    reviewMode: input.reviewMode,
+    filters: input.filters,
+    createdAt: createdAt.toISOString(),
+    updatedAt: null,
+    editToken: editToken.token,
+  } satisfies CreatedReview;
+}
+
+async function getReviewById(id: string): Promise<StoredReview | null> {
+  await ensureSchema();
+
+  const rows = await withClient(async (client) => {
+    const { rows } = await client.sql<ReviewRow>`
+      SELECT
+        r.id          AS review_id,
+        r.playlist_id,
+        r.playlist_name,
+        r.playlist_owner,
+        r.playlist_image,
+        r.image_url,
+        r.review_mode,
+        r.filters,
+        r.created_at,
+        r.updated_at,
+        a.id          AS album_row_id,
+        a.album_id,
+        a.position,
+        a.name        AS album_name,
+        a.artist,
+        a.image       AS album_image,
+        a.release_date,
+        a.label,
+        a.notes,
+        a.rating,
+        a.spotify_url
+      FROM reviews r
+      LEFT JOIN review_albums a ON a.review_id = r.id
+      WHERE r.id = ${id}::uuid AND r.deleted_at IS NULL
+      ORDER BY a.position ASC;
+    `;
+    return rows;
+  });
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const review = mapRowToReview(rows[0]);
+  for (const row of rows) {
+    const album = mapRowToAlbum(row);
+    if (album) {
+      review.albums.push(album);
+    }
+  }
+
+  return review;
+}
+
+/**
+ * Apply an edit to a saved review. Albums, when given, replace the stored list wholesale in the
+ * same transaction; `createdAt` is kept and `updatedAt` is bumped. Returns null if the review is gone.
+ */
+async function updateReview(id: string, update: ReviewRecordUpdate): Promise<StoredReview | null> {
+  await ensureSchema();
+
+  const found = await withClient(async (client) => {
+    await client.sql`BEGIN`;
+
+    try {
+      const { rows } = await client.sql<ReviewRow>`
+        SELECT
+          id            AS review_id,
+          playlist_id,
+          playlist_name,
+          playlist_owner,
+          playlist_image,
+          image_url,
+          review_mode,
+          filters,
+          created_at,
+          updated_at
+        FROM reviews
+        WHERE id = ${id}::uuid AND deleted_at IS NULL
+        FOR UPDATE;
+      `;
+      if (rows.length === 0) {
+        await client.sql`ROLLBACK`;
+        return false;
+      }
+
+      const current = mapRowToReview(rows[0]);
+      const next = {
+        playlistName: update.playlistName ?? current.playlistName,
+        playlistOwner: update.playlistOwner ?? current.playlistOwner,
+        playlistImage: update.playlistImage !== undefined ? update.playlistImage : current.playlistImage,
+        imageUrl: update.imageUrl !== undefined ? update.imageUrl : current.imageUrl,
+        reviewMode: update.reviewMode ?? current.reviewMode,
+        filters: update.filters !== undefined ? update.filters : current.filters,
+      };
+
+      await client.sql`
+        UPDATE reviews
+        SET
+          playlist_name = ${next.playlistName},
+          playlist_owner = ${next.playlistOwner},
+          playlist_image = ${next.playlistImage},
+          image_url = ${next.imageUrl},
+          review_mode = ${next.reviewMode},
+          filters = ${next.filters ? JSON.stringify(next.filters) : null}::jsonb,
+          updated_at = NOW()
+        WHERE id = ${id}::uuid;
+      `;
+
+      if (update.albums) {
+        await client.sql`
+          DELETE FROM review_albums
+          WHERE review_id = ${id}::uuid;
+        `;
+        await insertReviewAlbums(client, id, update.albums);
+      }
+
+      await client.sql`COMMIT`;
+      return true;
+    } catch (error) {
+      await client.sql`ROLLBACK`;
+      throw error;
+    }
+  });
+
+  return found ? getReviewById(id) : null;
+}
+
+async function getReviewEditAccess(id: string, token: string | null): Promise<EditAccess> {
+  await ensureSchema();
+
+  const rows = await withClient(async (client) => {
+    const { rows } = await client.sql<{ edit_token_hash: string | null }>`
+      SELECT edit_token_hash
+      FROM reviews
+      WHERE id = ${id}::uuid AND deleted_at IS NULL;
+    `;
+    return rows;
+  });
+
+  if (rows.length === 0) {
+    return 'not-found';
+  }
+  return matchesEditToken(token, rows[0].edit_token_hash) ? 'granted' : 'denied';
+}
+
+/** Move a review to the trash. Its albums and image are kept until it is purged. */
+async function deleteReviewById(id: string): Promise<boolean> {
+  await ensureSchema();
+
+  const affectedRows = await withClient(async (client) => {
+    const result = await client.sql`
+      UPDATE reviews
+      SET deleted_at = NOW()
+      WHERE id = ${id}::uuid AND deleted_at IS NULL;
+    `;
+    return result.rowCount ?? 0;
+  });
+
+  return affectedRows > 0;
+}
+
+async function listTrashedReviews(limit: number): Promise<TrashedEntry[]> {
+  await ensureSchema();
+
+  const rows = await withClient(async (client) => {
+    const { rows } = await client.sql<TrashedRow>`
+      SELECT id, playlist_name, playlist_owner, playlist_image, created_at, deleted_at
+      FROM reviews
+      WHERE deleted_at IS NOT NULL
+      ORDER BY deleted_at DESC, id DESC
+      LIMIT ${limit};
+    `;
+    return rows;
+  });
+
+  return rows.map((row) => ({
+    id: row.id,
+    playlistName: row.playlist_name,
+    playlistOwner: row.playlist_owner,
+    playlistImage: row.playlist_image,
+    createdAt: new Date(row.created_at).toISOString(),
+    deletedAt: new Date(row.deleted_at).toISOString(),
+  }));
+}
+
+async function restoreReviewById(id: string): Promise<boolean> {
+  await ensureSchema();
+
+  const affectedRows = await withClient(async (client) => {
+    const result = await client.sql`
+      UPDATE reviews
+      SET deleted_at = NULL
+      WHERE id = ${id}::uuid AND deleted_at IS NOT NULL;
+    `;
+    return result.rowCount ?? 0;
+  });
+
+  return affectedRows > 0;
+}
+
+async function purgeReviewById(id: string): Promise<PurgedEntry | null> {
+  await ensureSchema();
+
+  const rows = await withClient(async (client) => {
+    const { rows } = await client.sql<PurgedRow>`
+      DELETE FROM reviews
+      WHERE id = ${id}::uuid AND deleted_at IS NOT NULL
+      RETURNING id, image_url;
+    `;
+    return rows;
+  });
+
+  return rows.length > 0 ? { id: rows[0].id, imageUrl: rows[0].image_url } : null;
+}
+
+async function purgeReviewsDeletedBefore(cutoff: string): Promise<PurgedEntry[]> {
+  await ensureSchema();
+
+  const rows = await withClient(async (client) => {
+    const { rows } = await client.sql<PurgedRow>`
+      DELETE FROM reviews
+      WHERE deleted_at < ${cutoff}::timestamptz
+      RETURNING id, image_url;
+    `;
+    return rows;
+  });
+
+  return rows.map((row) => ({ id: row.id, imageUrl: row.image_url }));
+}
+
+export const postgresReviewRepository: ReviewRepository = {
+  listReviewSummaries,
+  addReview,
+  getReviewById,
+  updateReview,
+  getReviewEditAccess,
+  deleteReviewById,
+  listTrashedReviews,
+  restoreReviewById,
+  purgeReviewById,
+  purgeReviewsDeletedBefore,
+};
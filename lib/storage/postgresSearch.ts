@@ -0,0 +1,187 @@
+import { db, type VercelPoolClient } from '@vercel/postgres';
+import type { SearchQuery, SearchResult } from '@/types/search';
+import { ensureMigrations } from '@/lib/migrations';
+import { MAX_SEARCH_TERMS } from '@/lib/searchQuery';
+import type { SearchRepository } from '@/types/storage';
+
+type SearchRow = {
+  result_type: SearchResult['type'];
+  id: string;
+  name: string;
+  subtitle: string;
+  image: string | null;
+  album_id: string | null;
+  label: string | null;
+  notes: string | null;
+  parent_type: 'review' | 'tier-list' | null;
+  parent_name: string | null;
+  created_at: Date;
+  rank: number;
+};
+
+// Schema changes this store's queries rely on; see lib/migrations
+const REQUIRED_MIGRATIONS = [
+  '0001_create_reviews',
+  '0002_create_tier_lists',
+  '0009_soft_delete',
+  '0010_full_text_search',
+];
+
+function ensureSchema() {
+  return ensureMigrations(REQUIRED_MIGRATIONS);
+}
+
+function mapRowToResult(row: SearchRow): SearchResult {
+  const createdAt = new Date(row.created_at).toISOString();
+  const rank = Number(row.rank);
+  if (row.result_type === 'album') {
+    return {
+      type: 'album',
+      albumId: row.album_id ?? '',
+      name: row.name,
+      artist: row.subtitle,
+      image: row.image,
+      label: row.label,
+      notes: row.notes ?? '',
+      foundIn: { type: row.parent_type ?? 'review', id: row.id, playlistName: row.parent_name ?? '' },
+      createdAt,
+      rank,
+    };
+  }
+  return {
+    type: row.result_type,
+    id: row.id,
+    playlistName: row.name,
+    playlistOwner: row.subtitle,
+    playlistImage: row.image,
+    createdAt,
+    rank,
+  };
+}
+
+/**
+ * Turn typed search text into a tsquery, in text form, that prefix-matches each of its words; null when
+ * the text has no words. The text goes through the same parser as the stored columns, so tokens such as
+ * `ac/dc` or `v1.5` stay whole on both sides. Words past MAX_SEARCH_TERMS are dropped from the end.
+ */
+export async function buildPrefixTsquery(client: Pick<VercelPoolClient, 'sql'>, text: string) {
+  // Each lexeme becomes a quoted prefix term; the cast to tsquery skips a second round of parsing.
+  // unnest() returns lexemes alphabetically, so they are put back in typed order by first position.
+  const { rows } = await client.sql<{ query: string | null }>`
+    SELECT string_agg('''' || replace(replace(t.lexeme, '\\', '\\\\'), '''', '''''') || ''':*', ' & ' ORDER BY t.position)::tsquery::text AS query
+    FROM (
+      SELECT lexeme, positions[1] AS position
+      FROM unnest(to_tsvector('simple', ${text}))
+      ORDER BY positions[1]
+      LIMIT ${MAX_SEARCH_TERMS}
+    ) t;
+  `;
+  return rows[0]?.query ?? null;
+}
+
+async function search(query: SearchQuery): Promise<SearchResult[]> {
+  await ensureSchema();
+
+  const includeReviews = query.types.includes('review');
+  const includeTierLists = query.types.includes('tier-list');
+  const includeAlbums = query.types.includes('album');
+
+  const client = await db.connect();
+  try {
+    const tsquery = await buildPrefixTsquery(client, query.text);
+    if (!tsquery) {
+      return [];
+    }
+
+    // Album rows carry their parent's id so results link to the review or tier list they appear in
+    const { rows } = await client.sql<SearchRow>`
+      WITH q AS (SELECT ${tsquery}::tsquery AS query)
+      SELECT * FROM (
+        SELECT
+          'review' AS result_type,
+          r.id::text AS id,
+          r.playlist_name AS name,
+          r.playlist_owner AS subtitle,
+          r.playlist_image AS image,
+          NULL::text AS album_id,
+          NULL::text AS label,
+          NULL::text AS notes,
+          NULL::text AS parent_type,
+          NULL::text AS parent_name,
+          r.created_at,
+          ts_rank(r.search_vector, q.query) AS rank
+        FROM reviews r
+        CROSS JOIN q
+        WHERE ${includeReviews} AND r.deleted_at IS NULL AND r.search_vector @@ q.query
+
+        UNION ALL
+
+        SELECT
+          'tier-list',
+          l.id::text,
+          l.playlist_name,
+          l.playlist_owner,
+          l.playlist_image,
+          NULL,
+          NULL,
+          NULL,
+          NULL,
+          NULL,
+          l.created_at,
+          ts_rank(l.search_vector, q.query)
+        FROM tier_lists l
+        CROSS JOIN q
+        WHERE ${includeTierLists} AND l.deleted_at IS NULL AND l.search_vector @@ q.query
+
+        UNION ALL
+
+        SELECT
+          'album',
+          r.id::text,
+          a.name,
+          a.artist,
+          a.image,
+          a.album_id,
+          a.label,
+          a.notes,
+          'review',
+          r.playlist_name,
+          r.created_at,
+          ts_rank(a.search_vector, q.query)
+        FROM review_albums a
+        JOIN reviews r ON r.id = a.review_id
+        CROSS JOIN q
+        WHERE ${includeAlbums} AND r.deleted_at IS NULL AND a.search_vector @@ q.query
+
+        UNION ALL
+
+        SELECT
+          'album',
+          l.id::text,
+          a.name,
+          a.artist,
+          a.image,
+          a.album_id,
+          a.label,
+          a.notes,
+          'tier-list',
+          l.playlist_name,
+          l.created_at,
+          ts_rank(a.search_vector, q.query)
+        FROM tier_list_albums a
+        JOIN tier_lists l ON l.id = a.tier_list_id
+        CROSS JOIN q
+        WHERE ${includeAlbums} AND l.deleted_at IS NULL AND a.search_vector @@ q.query
+      ) results
+      ORDER BY rank DESC, created_at DESC, id DESC
+      LIMIT ${query.limit};
+    `;
+    return rows.map(mapRowToResult);
+  } finally {
+    client.release();
+  }
+}
+
+export const postgresSearchRepository: SearchRepository = {
+  search,
+};
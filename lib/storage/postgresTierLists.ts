@@ -0,0 +1,609 @@
+import { randomUUID } from 'crypto';
+import { db } from '@vercel/postgres';
+import type { VercelPoolClient } from '@vercel/postgres';
+import type {
+  CreatedTierList,
+  StoredTierList,
+  TierAlbumSource,
+  TierId,
+  TierListAlbum,
+  TierListRecordInput,
+  TierListRecordUpdate,
+  TierListSummary,
+  TierMetadataMap,
+} from '@/types/tier-list';
+import { createDefaultTierMetadata, mergeTierMetadata } from '@/data/tierMaker';
+import { createEditToken, matchesEditToken, type EditAccess } from '@/lib/editTokens';
+import { ensureMigrations } from '@/lib/migrations';
+import { SUMMARY_PREVIEW_ALBUMS, toPage } from '@/lib/pagination';
+import { emptyTierCounts } from './summaries';
+import type { ListQuery, Page, PurgedEntry, TierListRepository, TrashedEntry } from '@/types/storage';
+
+type TierListRow = {
+  tier_list_id: string;
+  playlist_id: string;
+  playlist_name: string;
+  playlist_owner: string;
+  playlist_image: string | null;
+  image_url: string | null;
+  created_at: Date | null;
+  updated_at: Date | null;
+  tier_metadata: unknown;
+  remixed_from: string | null;
+  remixed_from_name: string | null;
+  entry_id: string | null;
+  album_id: string | null;
+  tier: string | null;
+  position: number | null;
+  album_name: string | null;
+  artist: string | null;
+  album_image: string | null;
+  release_date: string | null;
+  label: string | null;
+  notes: string | null;
+  rating: number | null;
+  spotify_url: string | null;
+  source: string | null;
+  source_playlist_id: string | null;
+};
+
+type TierListSummaryRow = {
+  id: string;
+  playlist_id: string;
+  playlist_name: string;
+  playlist_owner: string;
+  playlist_image: string | null;
+  created_at: Date;
+  cursor_created_at: string;
+  tier_metadata: unknown;
+  tier_counts: Record<string, number> | null;
+  preview_albums: { id: string; name: string; image: string | null; tier: string }[];
+};
+
+type TrashedRow = {
+  id: string;
+  playlist_name: string;
+  playlist_owner: string;
+  playlist_image: string | null;
+  created_at: Date;
+  deleted_at: Date;
+};
+
+type PurgedRow = {
+  id: string;
+  image_url: string | null;
+};
+
+const VALID_TIERS: TierId[] = ['unranked', 's', 'a', 'b', 'c'];
+
+// Schema changes this store's queries rely on; see lib/migrations
+const REQUIRED_MIGRATIONS = [
+  '0002_create_tier_lists',
+  '0004_edit_tokens',
+  '0005_image_urls',
+  '0006_tier_list_updates',
+  '0007_tier_list_remixes',
+  '0008_tier_list_album_sources',
+  '0009_soft_delete',
+];
+
+async function withClient<T>(handler: (client: VercelPoolClient) => Promise<T>): Promise<T> {
+  const client = await db.connect();
+  try {
+    return await handler(client);
+  } finally {
+    client.release();
+  }
+}
+
+function ensureSchema() {
+  return ensureMigrations(REQUIRED_MIGRATIONS);
+}
+
+const normalizeTier = (value: string | null): TierId => {
+  if (value && VALID_TIERS.includes(value as TierId)) {
+    return value as TierId;
+  }
+  return 'unranked';
+};
+
+const normalizeSource = (value: string | null): TierAlbumSource =>
+  value === 'playlist' || value === 'search' ? value : 'manual';
+
+const parseTierMetadata = (value: unknown): TierMetadataMap => {
+  if (!value) {
+    return mergeTierMetadata(null);
+  }
+  try {
+    if (typeof value === 'string') {
+      return mergeTierMetadata(JSON.parse(value));
+    }
+    return mergeTierMetadata(value as Record<string, unknown>);
+  } catch {
+    return mergeTierMetadata(null);
+  }
+};
+
+function mapRowToTierList(row: TierListRow): StoredTierList {
+  return {
+    id: row.tier_list_id,
+    playlistId: row.playlist_id,
+    playlistName: row.playlist_name,
+    playlistOwner: row.playlist_owner,
+    playlistImage: row.playlist_image,
+    imageUrl: row.image_url,
+    createdAt: row.created_at ? row.created_at.toISOString() : new Date().toISOString(),
+    updatedAt: row.updated_at ? row.updated_at.toISOString() : null,
+    albums: [],
+    tierMetadata: parseTierMetadata(row.tier_metadata),
+    remixedFrom:
+      row.remixed_from && row.remixed_from_name != null
+        ? { id: row.remixed_from, playlistName: row.remixed_from_name }
+        : null,
+  };
+}
+
+function mapRowToAlbum(row: TierListRow): TierListAlbum | null {
+  if (!row.entry_id || !row.album_id || row.album_name == null || row.artist == null) {
+    return null;
+  }
+  return {
+    id: row.album_id,
+    name: row.album_name,
+    artist: row.artist,
+    image: row.album_image,
+    releaseDate: row.release_date ?? '',
+    label: row.label,
+    notes: row.notes ?? '',
+    rating: row.rating == null ? null : Number(row.rating),
+    spotifyUrl: row.spotify_url,
+    tier: normalizeTier(row.tier),
+    source: normalizeSource(row.source),
+    sourcePlaylistId: row.source_playlist_id,
+  };
+}
+
+// One unnest-based INSERT per tier list instead of one round trip per album. The `sql` template
+// only takes scalar values, so the column arrays go through `query` as positional parameters.
+// Positions are counted across the whole board, matching the album order the maker sends.
+async function insertTierListAlbums(client: VercelPoolClient, tierListId: string, albums: TierListAlbum[]) {
+  if (albums.length === 0) {
+    return;
+  }
+
+  const startedAt = performance.now();
+  await client.query(
+    `
+      INSERT INTO tier_list_albums (
+        id,
+        tier_list_id,
+        album_id,
+        tier,
+        position,
+        name,
+        artist,
+        image,
+        release_date,
+        label,
+        notes,
+        rating,
+        spotify_url,
+        source,
+        source_playlist_id
+      )
+      SELECT
+        a.id,
+        $1::uuid,
+        a.album_id,
+        a.tier,
+        (a.ordinality - 1)::int,
+        a.name,
+        a.artist,
+        a.image,
+        a.release_date,
+        a.label,
+        a.notes,
+        a.rating,
+        a.spotify_url,
+        a.source,
+        a.source_playlist_id
+      FROM unnest(
+        $2::uuid[], $3::text[], $4::text[], $5::text[], $6::text[], $7::text[],
+        $8::text[], $9::text[], $10::text[], $11::real[], $12::text[], $13::text[], $14::text[]
+      ) WITH ORDINALITY AS a(
+        id, album_id, tier, name, artist, image, release_date, label, notes, rating, spotify_url,
+        source, source_playlist_id, ordinality
+      );
+    `,
+    [
+      tierListId,
+      albums.map(() => randomUUID()),
+      albums.map((album) => album.id),
+      albums.map((album) => album.tier),
+      albums.map((album) => album.name),
+      albums.map((album) => album.artist),
+      albums.map((album) => album.image),
+      albums.map((album) => album.releaseDate),
+      albums.map((album) => album.label),
+      albums.map((album) => album.notes),
+      albums.map((album) => album.rating),
+      albums.map((album) => album.spotifyUrl),
+      albums.map((album) => album.source),
+      albums.map((album) => album.sourcePlaylistId),
+    ]
+  );
+  console.info(`Inserted ${albums.length} tier list albums in ${Math.round(performance.now() - startedAt)}ms`);
+}
+
+async function listTierListSummaries(query: ListQuery): Promise<Page<TierListSummary>> {
+  await ensureSchema();
+
+  const rows = await withClient(async (client) => {
+    // Albums are aggregated per tier list in SQL, so the result has one row per list
+    const { rows } = await client.sql<TierListSummaryRow>`
+      SELECT
+        l.id,
+        l.playlist_id,
+        l.playlist_name,
+        l.playlist_owner,
+        l.playlist_image,
+        l.created_at,
+        l.created_at::text AS cursor_created_at,
+        l.tier_metadata,
+        (
+          SELECT json_object_agg(c.tier, c.count)
+          FROM (
+            SELECT tier, COUNT(*)::int AS count
+            FROM tier_list_albums a
+            WHERE a.tier_list_id = l.id
+            GROUP BY tier
+          ) c
+        ) AS tier_counts,
+        COALESCE(
+          (
+            SELECT json_agg(
+              json_build_object('id', p.album_id, 'name', p.name, 'image', p.image, 'tier', p.tier)
+              ORDER BY array_position(ARRAY['s', 'a', 'b', 'c'], p.tier), p.position
+            )
+            FROM (
+              SELECT album_id, name, image, tier, position
+              FROM tier_list_albums a
+              WHERE a.tier_list_id = l.id AND a.tier <> 'unranked' AND a.image IS NOT NULL
+              ORDER BY array_position(ARRAY['s', 'a', 'b', 'c'], a.tier), a.position
+              LIMIT ${SUMMARY_PREVIEW_ALBUMS}
+            ) p
+          ),
+          '[]'::json
+        ) AS preview_albums
+      FROM tier_lists l
+      WHERE l.deleted_at IS NULL
+        AND (${query.playlistId ?? null}::text IS NULL OR l.playlist_id = ${query.playlistId ?? null})
+        AND (${query.owner ?? null}::text IS NULL OR LOWER(l.playlist_owner) = LOWER(${query.owner ?? null}))
+        AND (${query.createdFrom ?? null}::timestamptz IS NULL OR l.created_at >= ${query.createdFrom ?? null}::timestamptz)
+        AND (${query.createdTo ?? null}::timestamptz IS NULL OR l.created_at <= ${query.createdTo ?? null}::timestamptz)
+        AND (
+          ${query.cursor?.createdAt ?? null}::timestamptz IS NULL
+          OR (l.created_at, l.id) < (${query.cursor?.createdAt ?? null}::timestamptz, ${query.cursor?.id ?? null}::uuid)
+        )
+      ORDER BY l.created_at DESC, l.id DESC
+      LIMIT ${query.limit + 1};
+    `;
+    return rows;
+  });
+
+  const summaries = rows.map((row): TierListSummary => {
+    const tierCounts = emptyTierCounts();
+    for (const [tier, count] of Object.entries(row.tier_counts ?? {})) {
+      tierCounts[normalizeTier(tier)] += count;
+    }
+    return {
+      id: row.id,
+      playlistId: row.playlist_id,
+      playlistName: row.playlist_name,
+      playlistOwner: row.playlist_owner,
+      playlistImage: row.playlist_image,
+      createdAt: new Date(row.created_at).toISOString(),
+      tierMetadata: parseTierMetadata(row.tier_metadata),
+      albumCount: Object.values(tierCounts).reduce((sum, count) => sum + count, 0),
+      tierCounts,
+      previewAlbums: row.preview_albums.map((album) => ({ ...album, tier: normalizeTier(album.tier) })),
+    };
+  });
+  // Cursors use created_at as text so they keep Postgres' microsecond precision
+  return toPage(summaries, query.limit, (summary) => ({
+    createdAt: rows.find((row) => row.id === summary.id)?.cursor_created_at ?? summary.createdAt,
+    id: summary.id,
+  }));
+}
+
+/** Store a new tier list. The returned edit token is not persisted and cannot be recovered later. */
+async function addTierList(input: TierListRecordInput): Promise<CreatedTierList> {
+  await ensureSchema();
+
+  const tierListId = randomUUID();
+  const createdAt = new Date();
+  const editToken = createEditToken();
+  const tierMetadata = input.tierMetadata ?? createDefaultTierMetadata();
+
+  const remixedFrom = await withClient(async (client) => {
+    await client.sql`BEGIN`;
+
+    try {
+      // A source that no longer exists is dropped rather than failing the save
+      const { rows } = await client.sql<{ remixed_from: string | null; remixed_from_name: string | null }>`
+        INSERT INTO tier_lists (
+          id,
+          playlist_id,
+          playlist_name,
+          playlist_owner,
+          playlist_image,
+          image_url,
+          created_at,
+          tier_metadata,
+          edit_token_hash,
+          remixed_from
+        ) VALUES (
+          ${tierListId}::uuid,
+          ${input.playlistId},
+          ${input.playlistName},
+          ${input.playlistOwner},
+          ${input.playlistImage},
+          ${input.imageUrl},
+          ${createdAt.toISOString()}::timestamptz,
+          ${JSON.stringify(tierMetadata)}::jsonb,
+          ${editToken.hash},
+          (SELECT id FROM tier_lists WHERE id = ${input.remixedFrom}::uuid AND deleted_at IS NULL)
+        )
+        RETURNING
+          remixed_from,
+          (SELECT s.playlist_name FROM tier_lists s WHERE s.id = tier_lists.remixed_from) AS remixed_from_name;
+      `;
+
+      await insertTierListAlbums(client, tierListId, input.albums);
+
+      await client.sql`COMMIT`;
+      const [row] = rows;
+      return row?.remixed_from && row.remixed_from_name != null
+        ? { id: row.remixed_from, playlistName: row.remixed_from_name }
+        : null;
+    } catch (error) {
+      await client.sql`ROLLBACK`;
+      throw error;
+    }
+  });
+
+  return {
+    id: tierListId,
+    playlistId: input.playlistId,
+    playlistName: input.playlistName,
+    playlistOwner: input.playlistOwner,
+    playlistImage: input.playlistImage,
+    imageUrl: input.imageUrl,
+    createdAt: createdAt.toISOString(),
+    updatedAt: null,
+    albums: input.albums.map((album) => ({ ...album })),
+    tierMetadata,
+    remixedFrom,
+    editToken: editToken.token,
+  };
+}
+
+async function getTierListById(id: string): Promise<StoredTierList | null> {
+  await ensureSchema();
+
+  const rows = await withClient(async (client) => {
+    const { rows } = await client.sql<TierListRow>`
+      SELECT
+        l.id           AS tier_list_id,
+        l.playlist_id,
+        l.playlist_name,
+        l.playlist_owner,
+        l.playlist_image,
+        l.image_url,
+        l.created_at,
+        l.updated_at,
+        l.tier_metadata,
+        l.remixed_from,
+        s.playlist_name AS remixed_from_name,
+        a.id           AS entry_id,
+        a.album_id,
+        a.tier,
+        a.position,
+        a.name         AS album_name,
+        a.artist,
+        a.image        AS album_image,
+        a.release_date,
+        a.label,
+        a.notes,
+        a.rating,
+        a.spotify_url,
+        a.source,
+        a.source_playlist_id
+      FROM tier_lists l
+      LEFT JOIN tier_lists s ON s.id = l.remixed_from AND s.deleted_at IS NULL
+      LEFT JOIN tier_list_albums a ON a.tier_list_id = l.id
+      WHERE l.id = ${id}::uuid AND l.deleted_at IS NULL
+      ORDER BY a.tier ASC, a.position ASC;
+    `;
+    return rows;
+  });
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const tierList = mapRowToTierList(rows[0]);
+  for (const row of rows) {
+    const album = mapRowToAlbum(row);
+    if (album) {
+      tierList.albums.push(album);
+    }
+  }
+
+  return tierList;
+}
+
+/**
+ * Replace a saved board: header fields, tier metadata and every album placement change in one
+ * transaction. `createdAt` is kept and `updatedAt` is bumped. Returns null if the list is gone.
+ */
+async function updateTierList(id: string, update: TierListRecordUpdate): Promise<StoredTierList | null> {
+  await ensureSchema();
+
+  const found = await withClient(async (client) => {
+    await client.sql`BEGIN`;
+
+    try {
+      const { rowCount } = await client.sql`
+        UPDATE tier_lists
+        SET
+          playlist_name = ${update.playlistName},
+          playlist_owner = ${update.playlistOwner},
+          playlist_image = ${update.playlistImage},
+          image_url = ${update.imageUrl},
+          tier_metadata = ${JSON.stringify(update.tierMetadata)}::jsonb,
+          updated_at = NOW()
+        WHERE id = ${id}::uuid AND deleted_at IS NULL;
+      `;
+      if (!rowCount) {
+        await client.sql`ROLLBACK`;
+        return false;
+      }
+
+      await client.sql`
+        DELETE FROM tier_list_albums
+        WHERE tier_list_id = ${id}::uuid;
+      `;
+      await insertTierListAlbums(client, id, update.albums);
+
+      await client.sql`COMMIT`;
+      return true;
+    } catch (error) {
+      await client.sql`ROLLBACK`;
+      throw error;
+    }
+  });
+
+  return found ? getTierListById(id) : null;
+}
+
+async function getTierListEditAccess(id: string, token: string | null): Promise<EditAccess> {
+  await ensureSchema();
+
+  const rows = await withClient(async (client) => {
+    const { rows } = await client.sql<{ edit_token_hash: string | null }>`
+      SELECT edit_token_hash
+      FROM tier_lists
+      WHERE id = ${id}::uuid AND deleted_at IS NULL;
+    `;
+    return rows;
+  });
+
+  if (rows.length === 0) {
+    return 'not-found';
+  }
+  return matchesEditToken(token, rows[0].edit_token_hash) ? 'granted' : 'denied';
+}
+
+/** Move a tier list to the trash. Its albums and image are kept until it is purged. */
+async function deleteTierListById(id: string): Promise<boolean> {
+  await ensureSchema();
+
+  try {
+    const result = await withClient(async (client) => {
+      const { rowCount } = await client.sql`
+        UPDATE tier_lists
+        SET deleted_at = NOW()
+        WHERE id = ${id}::uuid AND deleted_at IS NULL;
+      `;
+      return rowCount;
+    });
+
+    return result !== null && result > 0;
+  } catch (error) {
+    console.error('Failed to delete tier list', error);
+    throw error;
+  }
+}
+
+async function listTrashedTierLists(limit: number): Promise<TrashedEntry[]> {
+  await ensureSchema();
+
+  const rows = await withClient(async (client) => {
+    const { rows } = await client.sql<TrashedRow>`
+      SELECT id, playlist_name, playlist_owner, playlist_image, created_at, deleted_at
+      FROM tier_lists
+      WHERE deleted_at IS NOT NULL
+      ORDER BY deleted_at DESC, id DESC
+      LIMIT ${limit};
+    `;
+    return rows;
+  });
+
+  return rows.map((row) => ({
+    id: row.id,
+    playlistName: row.playlist_name,
+    playlistOwner: row.playlist_owner,
+    playlistImage: row.playlist_image,
+    createdAt: new Date(row.created_at).toISOString(),
+    deletedAt: new Date(row.deleted_at).toISOString(),
+  }));
+}
+
+async function restoreTierListById(id: string): Promise<boolean> {
+  await ensureSchema();
+
+  const result = await withClient(async (client) => {
+    const { rowCount } = await client.sql`
+      UPDATE tier_lists
+      SET deleted_at = NULL
+      WHERE id = ${id}::uuid AND deleted_at IS NOT NULL;
+    `;
+    return rowCount;
+  });
+
+  return result !== null && result > 0;
+}
+
+async function purgeTierListById(id: string): Promise<PurgedEntry | null> {
+  await ensureSchema();
+
+  const rows = await withClient(async (client) => {
+    const { rows } = await client.sql<PurgedRow>`
+      DELETE FROM tier_lists
+      WHERE id = ${id}::uuid AND deleted_at IS NOT NULL
+      RETURNING id, image_url;
+    `;
+    return rows;
+  });
+
+  return rows.length > 0 ? { id: rows[0].id, imageUrl: rows[0].image_url } : null;
+}
+
+async function purgeTierListsDeletedBefore(cutoff: string): Promise<PurgedEntry[]> {
+  await ensureSchema();
+
+  const rows = await withClient(async (client) => {
+    const { rows } = await client.sql<PurgedRow>`
+      DELETE FROM tier_lists
+      WHERE deleted_at < ${cutoff}::timestamptz
+      RETURNING id, image_url;
+    `;
+    return rows;
+  });
+
+  return rows.map((row) => ({ id: row.id, imageUrl: row.image_url }));
+}
+
+export const postgresTierListRepository: TierListRepository = {
+  listTierListSummaries,
+  addTierList,
+  getTierListById,
+  updateTierList,
+  getTierListEditAccess,
+  deleteTierListById,
+  listTrashedTierLists,
+  restoreTierListById,
+  purgeTierListById,
+  purgeTierListsDeletedBefore,
+};
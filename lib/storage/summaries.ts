@@ -0,0 +1,48 @@
+import { SUMMARY_PREVIEW_ALBUMS } from '@/lib/pagination';
+import type { ReviewSummary, StoredReview } from '@/types/review';
+import type { RankedTierId, StoredTierList, TierId, TierListSummary } from '@/types/tier-list';
+
+const RANKED_TIER_ORDER: RankedTierId[] = ['s', 'a', 'b', 'c'];
+
+export const emptyTierCounts = (): Record<TierId, number> => ({ unranked: 0, s: 0, a: 0, b: 0, c: 0 });
+
+/** In-process equivalent of the Postgres summary query, for drivers that hold full records. */
+export function toReviewSummary(review: StoredReview): ReviewSummary {
+  return {
+    id: review.id,
+    playlistId: review.playlistId,
+    playlistName: review.playlistName,
+    playlistOwner: review.playlistOwner,
+    playlistImage: review.playlistImage,
+    reviewMode: review.reviewMode,
+    createdAt: review.createdAt,
+    updatedAt: review.updatedAt,
+    albumCount: review.albums.length,
+    previewAlbums: review.albums
+      .slice(0, SUMMARY_PREVIEW_ALBUMS)
+      .map(({ name, artist, image }) => ({ name, artist, image })),
+  };
+}
+
+export function toTierListSummary(tierList: StoredTierList): TierListSummary {
+  const tierCounts = emptyTierCounts();
+  for (const album of tierList.albums) {
+    tierCounts[album.tier] += 1;
+  }
+
+  return {
+    id: tierList.id,
+    playlistId: tierList.playlistId,
+    playlistName: tierList.playlistName,
+    playlistOwner: tierList.playlistOwner,
+    playlistImage: tierList.playlistImage,
+    createdAt: tierList.createdAt,
+    tierMetadata: tierList.tierMetadata,
+    albumCount: tierList.albums.length,
+    tierCounts,
+    previewAlbums: RANKED_TIER_ORDER.flatMap((tier) => tierList.albums.filter((album) => album.tier === tier))
+      .filter((album) => album.image)
+      .slice(0, SUMMARY_PREVIEW_ALBUMS)
+      .map(({ id, name, image, tier }) => ({ id, name, image, tier })),
+  };
+}
@@ -0,0 +1,18 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseTierListInput } from './tierListPayload';
+
+const body = { playlistId: 'custom', playlistName: 'Best of 2024', playlistOwner: 'sam', albums: [] };
+
+describe('parseTierListInput', () => {
+  it('trims the title and owner', () => {
+    const input = parseTierListInput({ ...body, playlistName: '  Best of 2024 ', playlistOwner: ' sam ' });
+    assert.equal(input?.playlistName, 'Best of 2024');
+    assert.equal(input?.playlistOwner, 'sam');
+  });
+
+  it('falls back to the default name for a blank title', () => {
+    assert.equal(parseTierListInput({ ...body, playlistName: '' })?.playlistName, 'Custom Tier Board');
+    assert.equal(parseTierListInput({ ...body, playlistName: '   ' })?.playlistName, 'Custom Tier Board');
+  });
+});
@@ -0,0 +1,75 @@
+import type { TierAlbumSource, TierId, TierListAlbum, TierListInput } from '@/types/tier-list';
+import { DEFAULT_TIER_LIST_NAME, mergeTierMetadata } from '@/data/tierMaker';
+
+const allowedTiers: TierId[] = ['unranked', 's', 'a', 'b', 'c'];
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const normalizeTier = (value: unknown): TierId => {
+  if (typeof value === 'string' && allowedTiers.includes(value as TierId)) {
+    return value as TierId;
+  }
+  return 'unranked';
+};
+
+const normalizeSource = (source: unknown, sourcePlaylistId: unknown): Pick<TierListAlbum, 'source' | 'sourcePlaylistId'> => {
+  if (source === 'playlist' && typeof sourcePlaylistId === 'string' && sourcePlaylistId.length > 0) {
+    return { source, sourcePlaylistId };
+  }
+  const kind: TierAlbumSource = source === 'search' ? 'search' : 'manual';
+  return { source: kind, sourcePlaylistId: null };
+};
+
+export function parseTierListAlbums(albumsInput: unknown[]): TierListAlbum[] {
+  return albumsInput
+    .map((albumEntry: unknown) => {
+      if (typeof albumEntry !== 'object' || albumEntry === null) {
+        return null;
+      }
+      const album = albumEntry as Record<string, unknown>;
+      if (typeof album.id !== 'string' || typeof album.name !== 'string') {
+        return null;
+      }
+      return {
+        id: album.id,
+        name: album.name,
+        artist: typeof album.artist === 'string' ? album.artist : '',
+        image: typeof album.image === 'string' ? album.image : null,
+        releaseDate: typeof album.releaseDate === 'string' ? album.releaseDate : '',
+        label: typeof album.label === 'string' ? album.label : null,
+        notes: typeof album.notes === 'string' ? album.notes : '',
+        rating: typeof album.rating === 'number' ? album.rating : null,
+        spotifyUrl: typeof album.spotifyUrl === 'string' ? album.spotifyUrl : null,
+        tier: normalizeTier(album.tier),
+        ...normalizeSource(album.source, album.sourcePlaylistId),
+      } satisfies TierListAlbum;
+    })
+    .filter((album): album is TierListAlbum => Boolean(album));
+}
+
+/**
+ * Validate a full tier list body (POST and PUT). Returns null when required fields are missing; a blank
+ * title falls back to the board's default name.
+ */
+export function parseTierListInput(payload: unknown): TierListInput | null {
+  const body = (payload ?? {}) as Record<string, unknown>;
+  const { playlistId, playlistName, playlistOwner, playlistImage, imageDataUrl, remixedFrom } = body;
+
+  if (
+    typeof playlistId !== 'string' ||
+    typeof playlistName !== 'string' ||
+    typeof playlistOwner !== 'string'
+  ) {
+    return null;
+  }
+
+  return {
+    playlistId,
+    playlistName: playlistName.trim() || DEFAULT_TIER_LIST_NAME,
+    playlistOwner: playlistOwner.trim(),
+    playlistImage: typeof playlistImage === 'string' ? playlistImage : null,
+    imageDataUrl: typeof imageDataUrl === 'string' ? imageDataUrl : null,
+    albums: parseTierListAlbums(Array.isArray(body.albums) ? body.albums : []),
+    tierMetadata: mergeTierMetadata(body.tierMetadata as Parameters<typeof mergeTierMetadata>[0]),
+    remixedFrom: typeof remixedFrom === 'string' && UUID.test(remixedFrom) ? remixedFrom : null,
+  };
+}
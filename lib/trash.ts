@@ -0,0 +1,55 @@
+import { listTrashedReviews, purgeReviewsDeletedBefore } from './reviews';
+import { listTrashedTierLists, purgeTierListsDeletedBefore } from './tierLists';
+
+const readPositiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** Days a deleted review or tier list stays restorable before it is purged for good. */
+export const TRASH_RETENTION_DAYS = readPositiveNumber(process.env.TRASH_RETENTION_DAYS, 30);
+
+// Opportunistic sweeps run at most this often per server process
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+let lastSweepAt = 0;
+
+export type TrashPurgeResult = {
+  reviews: number;
+  tierLists: number;
+};
+
+/** Both trashes, most recently deleted first. */
+export async function listTrash(limit: number) {
+  const [reviews, tierLists] = await Promise.all([listTrashedReviews(limit), listTrashedTierLists(limit)]);
+  return { reviews, tierLists };
+}
+
+/** Purge everything that has been in the trash longer than the retention period. */
+export async function purgeExpiredTrash(now = new Date()): Promise<TrashPurgeResult> {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const reviews = await purgeReviewsDeletedBefore(cutoff);
+  const tierLists = await purgeTierListsDeletedBefore(cutoff);
+  return { reviews, tierLists };
+}
+
+/**
+ * Run {@link purgeExpiredTrash} if this process has not swept in the last hour. Called from the
+ * delete paths and the admin dashboard so retention holds without a scheduler; failures are logged
+ * and never break the caller.
+ */
+export async function sweepExpiredTrash() {
+  if (Date.now() - lastSweepAt < SWEEP_INTERVAL_MS) {
+    return;
+  }
+  lastSweepAt = Date.now();
+
+  try {
+    const purged = await purgeExpiredTrash();
+    if (purged.reviews > 0 || purged.tierLists > 0) {
+      console.info(`Purged ${purged.reviews} review(s) and ${purged.tierLists} tier list(s) from the trash.`);
+    }
+  } catch (error) {
+    console.error('Failed to purge expired trash', error);
+  }
+}
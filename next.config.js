@@ -10,6 +10,14 @@ module.exports = {
         protocol: 'https',
         hostname: 'mosaic.scdn.co',
       },
+      {
+        protocol: 'https',
+        hostname: 'image-cdn-fa.spotifycdn.com',
+      },
+      {
+        protocol: 'https',
+        hostname: 'image-cdn-ak.spotifycdn.com',
+      },
     ],
   },
   async headers() {
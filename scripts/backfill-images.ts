@@ -0,0 +1,72 @@
+import { loadEnvConfig } from '@next/env';
+
+// Pick up POSTGRES_URL and blob storage settings from .env files the same way `next dev` does
+loadEnvConfig(process.cwd());
+
+const BATCH_SIZE = 20;
+
+type LegacyImageRow = {
+  id: string;
+  image_data_url: string;
+};
+
+/**
+ * Move base64 images still stored in `image_data_url` into blob storage, one batch at a time.
+ * Safe to re-run: rows are only touched while `image_url` is empty.
+ */
+async function main() {
+  const { db } = await import('@vercel/postgres');
+  const { runMigrations } = await import('@/lib/migrations');
+  const { deleteStoredImage, storeImageDataUrl } = await import('@/lib/blobs');
+
+  await runMigrations();
+
+  const tables = [
+    { table: 'reviews', collection: 'reviews' },
+    { table: 'tier_lists', collection: 'tier-lists' },
+  ] as const;
+
+  for (const { table, collection } of tables) {
+    let moved = 0;
+    let cleared = 0;
+
+    for (;;) {
+      const { rows } = await db.query<LegacyImageRow>(
+        `SELECT id, image_data_url FROM ${table}
+         WHERE image_data_url IS NOT NULL AND image_url IS NULL
+         ORDER BY created_at ASC
+         LIMIT $1`,
+        [BATCH_SIZE]
+      );
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        // Unparseable data is cleared as well, so the loop always makes progress
+        const imageUrl = await storeImageDataUrl(collection, row.image_data_url);
+        const { rowCount } = await db.query(
+          `UPDATE ${table} SET image_url = $1, image_data_url = NULL WHERE id = $2 AND image_url IS NULL`,
+          [imageUrl, row.id]
+        );
+        if (!rowCount) {
+          // Another run got there first
+          await deleteStoredImage(imageUrl);
+        } else if (imageUrl) {
+          moved += 1;
+        } else {
+          cleared += 1;
+        }
+      }
+    }
+
+    console.log(`${table}: moved ${moved} image(s), cleared ${cleared} invalid value(s).`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Image backfill failed', error);
+    process.exit(1);
+  });
@@ -0,0 +1,17 @@
+import { loadEnvConfig } from '@next/env';
+
+// Pick up POSTGRES_URL from .env files the same way `next dev` does
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const { runMigrations } = await import('@/lib/migrations');
+  const applied = await runMigrations();
+  console.log(applied.length > 0 ? `Applied: ${applied.join(', ')}` : 'Database is up to date.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Migration failed', error);
+    process.exit(1);
+  });
@@ -0,0 +1,19 @@
+import { loadEnvConfig } from '@next/env';
+
+// Pick up POSTGRES_URL, STORAGE_DRIVER and TRASH_RETENTION_DAYS from .env files the same way `next dev` does
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const { purgeExpiredTrash, TRASH_RETENTION_DAYS } = await import('@/lib/trash');
+  const purged = await purgeExpiredTrash();
+  console.log(
+    `Purged ${purged.reviews} review(s) and ${purged.tierLists} tier list(s) deleted more than ${TRASH_RETENTION_DAYS} day(s) ago.`
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Trash purge failed', error);
+    process.exit(1);
+  });
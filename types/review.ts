@@ -1,5 +1,13 @@
 export type ReviewMode = 'review' | 'plain' | 'rating' | 'both';
 
+/** Analyzer filters that were active when a playlist review was saved. */
+export interface ReviewAlbumFilters {
+  excludeSingles: boolean;
+  excludeCompilations: boolean;
+  releaseYear: number | null;
+  minTracks: number;
+}
+
 export interface StoredAlbum {
   id: string;
   name: string;
@@ -19,17 +27,47 @@ export interface StoredReview {
   playlistOwner: string;
   playlistImage: string | null;
   albums: StoredAlbum[];
-  imageDataUrl: string | null;
+  /** Path of the exported review image in blob storage (served by `/images/...`). */
+  imageUrl: string | null;
+  reviewMode: ReviewMode;
+  filters: ReviewAlbumFilters | null;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+/** Listing view of a review: header fields, album count and the first few albums for previews. */
+export interface ReviewSummary {
+  id: string;
+  playlistId: string;
+  playlistName: string;
+  playlistOwner: string;
+  playlistImage: string | null;
   reviewMode: ReviewMode;
   createdAt: string;
+  updatedAt: string | null;
+  albumCount: number;
+  previewAlbums: Pick<StoredAlbum, 'name' | 'artist' | 'image'>[];
 }
 
+/** Returned once when a review is created; only the creator ever sees `editToken`. */
+export type CreatedReview = StoredReview & { editToken: string };
+
 export interface ReviewInput {
   playlistId: string;
   playlistName: string;
   playlistOwner: string;
   playlistImage: string | null;
   albums: StoredAlbum[];
+  /** Exported image as sent by the builder; moved to blob storage before the review is stored. */
   imageDataUrl: string | null;
   reviewMode: ReviewMode;
+  filters: ReviewAlbumFilters | null;
 }
+
+/** Fields a saved review can change; the source playlist stays fixed. */
+export type ReviewUpdate = Partial<Omit<ReviewInput, 'playlistId'>>;
+
+/** What repositories persist: the input with its image already uploaded. */
+export type ReviewRecordInput = Omit<ReviewInput, 'imageDataUrl'> & { imageUrl: string | null };
+
+export type ReviewRecordUpdate = Partial<Omit<ReviewRecordInput, 'playlistId'>>;
@@ -0,0 +1,44 @@
+export type SearchResultType = 'review' | 'tier-list' | 'album';
+
+/** A matching review or tier list, ranked on its playlist name and owner. */
+export interface CreationSearchResult {
+  type: 'review' | 'tier-list';
+  id: string;
+  playlistName: string;
+  playlistOwner: string;
+  playlistImage: string | null;
+  createdAt: string;
+  rank: number;
+}
+
+/** A matching album, ranked on its name, artist, label and notes, with the review or tier list it appears in. */
+export interface AlbumSearchResult {
+  type: 'album';
+  albumId: string;
+  name: string;
+  artist: string;
+  image: string | null;
+  label: string | null;
+  notes: string;
+  foundIn: {
+    type: 'review' | 'tier-list';
+    id: string;
+    playlistName: string;
+  };
+  createdAt: string;
+  rank: number;
+}
+
+export type SearchResult = CreationSearchResult | AlbumSearchResult;
+
+export interface SearchQuery {
+  /** The query as typed, trimmed. */
+  text: string;
+  /**
+   * Lower-cased letter and digit runs from `text` for the memory matcher; every one must prefix-match a
+   * word in the result. Postgres tokenizes `text` itself, keeping tokens such as `ac/dc` whole.
+   */
+  terms: string[];
+  types: SearchResultType[];
+  limit: number;
+}
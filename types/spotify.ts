@@ -0,0 +1,101 @@
+import type { ArtistAlbumGroup } from '@/utils/spotify';
+
+export type PlaylistTracksResult = {
+  items: unknown[];
+  total: number;
+  truncated: boolean;
+};
+
+export type PlaylistDetails = {
+  name: string;
+  owner: string;
+  image: string | null;
+};
+
+export type SpotifyAlbumDetail = {
+  id: string;
+  name: string;
+  artists?: { name: string }[];
+  album_type?: string;
+  label: string | null;
+  images: { url: string }[];
+  release_date: string;
+  external_urls?: { spotify?: string };
+};
+
+export type SpotifyAlbumSearchResult = {
+  id: string;
+  name: string;
+  artists: string[];
+  image: string | null;
+  releaseDate: string;
+  spotifyUrl: string | null;
+  totalTracks: number | null;
+};
+
+export type SpotifyAlbumTrack = {
+  id: string;
+  name: string;
+  trackNumber: number;
+  discNumber: number;
+  durationMs: number;
+  explicit: boolean;
+  artists: string[];
+  spotifyUrl: string | null;
+};
+
+export type SpotifyAlbumTracksPage = {
+  items: SpotifyAlbumTrack[];
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+};
+
+export type ArtistAlbumsResult = {
+  artist: {
+    name: string;
+    image: string | null;
+  };
+  albums: SpotifyAlbumDetail[];
+  total: number;
+  truncated: boolean;
+};
+
+export type ArtistAlbumsOptions = {
+  groups?: ArtistAlbumGroup[];
+  dedupe?: boolean;
+};
+
+/** Playlist reads run as the signed-in user when their token is passed in. */
+export type PlaylistRequestOptions = {
+  maxTracks?: number;
+  accessToken?: string;
+};
+
+export type SpotifyUserPlaylist = {
+  id: string;
+  name: string;
+  owner: string;
+  image: string | null;
+  trackCount: number;
+  collaborative: boolean;
+  public: boolean | null;
+};
+
+export type AlbumTracksOptions = {
+  limit?: number;
+  offset?: number;
+};
+
+/** Catalogue access used by the API routes. Implementations are selected in utils/spotifyApi. */
+export interface SpotifyProvider {
+  getPlaylistTracks(playlistId: string, options?: PlaylistRequestOptions): Promise<PlaylistTracksResult>;
+  getPlaylistDetails(playlistId: string, options?: PlaylistRequestOptions): Promise<PlaylistDetails>;
+  getUserPlaylists(accessToken: string): Promise<SpotifyUserPlaylist[]>;
+  getAlbumsDetails(ids: string[]): Promise<Record<string, SpotifyAlbumDetail>>;
+  getAlbumTracks(albumId: string, options?: AlbumTracksOptions): Promise<SpotifyAlbumTracksPage>;
+  getTrackAlbumId(trackId: string): Promise<string | null>;
+  searchAlbums(query: string, limit?: number): Promise<SpotifyAlbumSearchResult[]>;
+  getArtistAlbums(artistId: string, options?: ArtistAlbumsOptions): Promise<ArtistAlbumsResult>;
+}
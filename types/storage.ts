@@ -0,0 +1,112 @@
+import type { EditAccess } from '@/lib/editTokens';
+import type {
+  CreatedReview,
+  ReviewMode,
+  ReviewRecordInput,
+  ReviewRecordUpdate,
+  ReviewSummary,
+  StoredReview,
+} from '@/types/review';
+import type { SearchQuery, SearchResult } from '@/types/search';
+import type {
+  CreatedTierList,
+  StoredTierList,
+  TierListRecordInput,
+  TierListRecordUpdate,
+  TierListSummary,
+} from '@/types/tier-list';
+
+export type StorageDriver = 'postgres' | 'memory';
+
+export type BlobStoreKind = 'filesystem' | 's3';
+
+export type StoredBlob = {
+  body: Buffer;
+  contentType: string;
+};
+
+/** Binary storage for exported images; keys are slash-separated paths such as `reviews/<uuid>.jpg`. */
+export interface BlobStore {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredBlob | null>;
+  delete(key: string): Promise<void>;
+}
+
+/** Filters and paging shared by review and tier-list listings; newest first, paged by (createdAt, id). */
+export interface ListQuery {
+  limit: number;
+  cursor: ListCursor | null;
+  playlistId?: string;
+  /** Case-insensitive exact match on the playlist owner. */
+  owner?: string;
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+export interface ReviewListQuery extends ListQuery {
+  reviewMode?: ReviewMode;
+}
+
+export type ListCursor = {
+  createdAt: string;
+  id: string;
+};
+
+export type Page<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
+
+/** A soft-deleted review or tier list as shown in the admin trash. */
+export interface TrashedEntry {
+  id: string;
+  playlistName: string;
+  playlistOwner: string;
+  playlistImage: string | null;
+  createdAt: string;
+  deletedAt: string;
+}
+
+/** A permanently removed entry; `imageUrl` is returned so the caller can clean up blob storage. */
+export interface PurgedEntry {
+  id: string;
+  imageUrl: string | null;
+}
+
+/**
+ * Persistence for reviews. Listings return summaries; fetch by id for albums and the rendered image.
+ * Deleting only moves a review to the trash: every read except the trash methods skips trashed reviews.
+ */
+export interface ReviewRepository {
+  listReviewSummaries(query: ReviewListQuery): Promise<Page<ReviewSummary>>;
+  addReview(input: ReviewRecordInput): Promise<CreatedReview>;
+  getReviewById(id: string): Promise<StoredReview | null>;
+  updateReview(id: string, update: ReviewRecordUpdate): Promise<StoredReview | null>;
+  getReviewEditAccess(id: string, token: string | null): Promise<EditAccess>;
+  deleteReviewById(id: string): Promise<boolean>;
+  /** Trashed reviews, most recently deleted first. */
+  listTrashedReviews(limit: number): Promise<TrashedEntry[]>;
+  restoreReviewById(id: string): Promise<boolean>;
+  /** Permanently remove a trashed review; live reviews are left alone. */
+  purgeReviewById(id: string): Promise<PurgedEntry | null>;
+  purgeReviewsDeletedBefore(cutoff: string): Promise<PurgedEntry[]>;
+}
+
+/** Persistence for tier lists; same listing rules as {@link ReviewRepository}. */
+export interface TierListRepository {
+  listTierListSummaries(query: ListQuery): Promise<Page<TierListSummary>>;
+  addTierList(input: TierListRecordInput): Promise<CreatedTierList>;
+  getTierListById(id: string): Promise<StoredTierList | null>;
+  updateTierList(id: string, update: TierListRecordUpdate): Promise<StoredTierList | null>;
+  getTierListEditAccess(id: string, token: string | null): Promise<EditAccess>;
+  deleteTierListById(id: string): Promise<boolean>;
+  listTrashedTierLists(limit: number): Promise<TrashedEntry[]>;
+  restoreTierListById(id: string): Promise<boolean>;
+  purgeTierListById(id: string): Promise<PurgedEntry | null>;
+  purgeTierListsDeletedBefore(cutoff: string): Promise<PurgedEntry[]>;
+}
+
+/** Ranked matches across live reviews, tier lists and their albums, best first. */
+export interface SearchRepository {
+  search(query: SearchQuery): Promise<SearchResult[]>;
+}
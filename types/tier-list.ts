@@ -1,6 +1,9 @@
 export type TierId = 'unranked' | 's' | 'a' | 'b' | 'c';
 export type RankedTierId = Exclude<TierId, 'unranked'>;
 
+/** How an album reached the board: a loaded Spotify link, album search, or an unknown/manual origin. */
+export type TierAlbumSource = 'playlist' | 'search' | 'manual';
+
 export interface TierListAlbum {
   id: string;
   name: string;
@@ -12,6 +15,9 @@ export interface TierListAlbum {
   rating: number | null;
   spotifyUrl: string | null;
   tier: TierId;
+  source: TierAlbumSource;
+  /** Source id of the loaded playlist, album or artist (see `toSourceId`) when `source` is 'playlist'. */
+  sourcePlaylistId: string | null;
 }
 
 export interface TierMetadataEntry {
@@ -23,24 +29,63 @@ export interface TierMetadataEntry {
 
 export type TierMetadataMap = Record<RankedTierId, TierMetadataEntry>;
 
+/** Points at another tier list, e.g. the one a remix started from. */
+export interface TierListReference {
+  id: string;
+  playlistName: string;
+}
+
 export interface StoredTierList {
   id: string;
   playlistId: string;
   playlistName: string;
   playlistOwner: string;
   playlistImage: string | null;
-  imageDataUrl: string | null;
+  /** Path of the exported tier image in blob storage (served by `/images/...`). */
+  imageUrl: string | null;
   createdAt: string;
+  updatedAt: string | null;
   albums: TierListAlbum[];
   tierMetadata: TierMetadataMap;
+  /** The list this one was remixed from; null once that list is deleted. */
+  remixedFrom: TierListReference | null;
 }
 
+/** Listing view of a tier list: header fields, per-tier counts and a few ranked covers. */
+export interface TierListSummary {
+  id: string;
+  playlistId: string;
+  playlistName: string;
+  playlistOwner: string;
+  playlistImage: string | null;
+  createdAt: string;
+  tierMetadata: TierMetadataMap;
+  albumCount: number;
+  tierCounts: Record<TierId, number>;
+  /** Ranked albums with cover art, best tier first. */
+  previewAlbums: Pick<TierListAlbum, 'id' | 'name' | 'image' | 'tier'>[];
+}
+
+/** Returned once when a tier list is created; only the creator ever sees `editToken`. */
+export type CreatedTierList = StoredTierList & { editToken: string };
+
 export interface TierListInput {
   playlistId: string;
   playlistName: string;
   playlistOwner: string;
   playlistImage: string | null;
+  /** Exported image as sent by the tier maker; moved to blob storage before the list is stored. */
   imageDataUrl: string | null;
   albums: TierListAlbum[];
   tierMetadata: TierMetadataMap;
+  /** Id of the tier list this board was remixed from, if any. */
+  remixedFrom: string | null;
 }
+
+/** A full replacement of a saved board: names, placements, tier metadata and image. The source playlist stays fixed. */
+export type TierListUpdate = Omit<TierListInput, 'playlistId' | 'remixedFrom'>;
+
+/** What repositories persist: the input with its image already uploaded. */
+export type TierListRecordInput = Omit<TierListInput, 'imageDataUrl'> & { imageUrl: string | null };
+
+export type TierListRecordUpdate = Omit<TierListRecordInput, 'playlistId' | 'remixedFrom'>;
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { editionGroupKey, groupAlbumEditions } from './albumEditions';
+
+type Album = { name: string; artist: string };
+
+const group = (albums: Album[]) =>
+  groupAlbumEditions(albums, (album) => album.name, (album) => album.artist);
+
+describe('groupAlbumEditions', () => {
+  it('merges a deluxe edition with the plain album', () => {
+    const groups = group([
+      { name: 'Homogenic', artist: 'Björk' },
+      { name: 'Homogenic (Deluxe Edition)', artist: 'Bjork' },
+    ]);
+    assert.equal(groups.length, 1);
+    assert.equal(groups[0].primary.name, 'Homogenic');
+    assert.equal(groups[0].editions.length, 1);
+  });
+
+  it('keeps different non-Latin albums apart', () => {
+    const groups = group([
+      { name: 'ファンタズマ', artist: 'コーネリアス' },
+      { name: 'Группа крови', artist: 'Кино' },
+      { name: 'ファンタズマ (Remastered)', artist: 'コーネリアス' },
+    ]);
+    assert.equal(groups.length, 2);
+    assert.deepEqual(
+      groups.map((entry) => entry.editions.length),
+      [1, 0]
+    );
+  });
+
+  it('keeps kana that differ only by dakuten apart', () => {
+    assert.notEqual(editionGroupKey('がき', 'x'), editionGroupKey('かき', 'x'));
+  });
+
+  it('never groups albums whose title or artist has no letters or digits', () => {
+    assert.equal(editionGroupKey('...', 'Artist'), null);
+    assert.equal(editionGroupKey('Album', '☆'), null);
+    assert.equal(group([{ name: '?', artist: '!' }, { name: '?', artist: '!' }]).length, 2);
+  });
+});
@@ -0,0 +1,79 @@
+// Words that mark a re-release of the same record rather than a different one.
+// "Version" is left out on purpose: "(Taylor's Version)" is a separate recording.
+const EDITION_KEYWORDS =
+  /\b(deluxe|remaster(ed)?|anniversary|expanded|edition|bonus|special|collector'?s|reissue|re-issue|legacy|mono|stereo|\d{4} mix)\b/i;
+
+const TRAILING_BRACKETS = /\s*[([]([^()[\]]*)[)\]]\s*$/;
+const TRAILING_DASH = /\s+[-–—]\s+([^-–—]+)$/;
+
+// Any script's letters and digits count, so non-Latin titles keep distinct keys.
+// Built from a string because the tsconfig's default target rejects the `u` flag in regex literals.
+const NON_WORD = new RegExp('[^\\p{L}\\p{N}]+', 'gu');
+
+// Latin accents fold away ("Björk" matches "Bjork"); NFC puts back marks such as Japanese dakuten
+const toComparable = (value: string) =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(NON_WORD, ' ')
+    .trim();
+
+/** Strip trailing edition markers such as "(Deluxe Edition)" or " - 2011 Remaster" from an album title. */
+export function stripEditionSuffix(name: string): string {
+  let title = name.trim();
+  let previous = '';
+  while (title !== previous) {
+    previous = title;
+    title = title
+      .replace(TRAILING_BRACKETS, (match, inner: string) => (EDITION_KEYWORDS.test(inner) ? '' : match))
+      .replace(TRAILING_DASH, (match, inner: string) => (EDITION_KEYWORDS.test(inner) ? '' : match))
+      .trim();
+  }
+  return title || name.trim();
+}
+
+/** Null when the title or artist has no letters or digits to compare, so such albums are never grouped. */
+export function editionGroupKey(name: string, artist: string): string | null {
+  const comparableName = toComparable(stripEditionSuffix(name));
+  const comparableArtist = toComparable(artist);
+  return comparableName && comparableArtist ? `${comparableName}|${comparableArtist}` : null;
+}
+
+export type EditionGroup<T> = {
+  key: string;
+  primary: T;
+  editions: T[];
+};
+
+/**
+ * Group albums that are editions of the same record by the same artist. Groups keep the order in
+ * which they first appear; the plain (suffix-free) title is preferred as the primary entry.
+ */
+export function groupAlbumEditions<T>(
+  albums: T[],
+  getName: (album: T) => string,
+  getArtist: (album: T) => string
+): EditionGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  albums.forEach((album, index) => {
+    const key = editionGroupKey(getName(album), getArtist(album)) ?? `ungrouped:${index}`;
+    const members = groups.get(key);
+    if (members) {
+      members.push(album);
+    } else {
+      groups.set(key, [album]);
+    }
+  });
+
+  return Array.from(groups.entries()).map(([key, members]) => {
+    const plain = members.find((album) => stripEditionSuffix(getName(album)) === getName(album).trim());
+    const primary = plain ?? members[0];
+    return {
+      key,
+      primary,
+      editions: members.filter((album) => album !== primary),
+    };
+  });
+}
@@ -0,0 +1,65 @@
+export type OwnedCreationKind = 'review' | 'tier-list';
+
+/** A review or tier list created from this browser, with the secret needed to edit or delete it. */
+export interface OwnedCreation {
+  kind: OwnedCreationKind;
+  id: string;
+  editToken: string;
+  title: string;
+  createdAt: string;
+}
+
+export const EDIT_TOKEN_HEADER = 'X-Edit-Token';
+
+const STORAGE_KEY = 'myrating.ownedCreations';
+
+const isOwnedCreation = (value: unknown): value is OwnedCreation => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const entry = value as Record<string, unknown>;
+  return (
+    (entry.kind === 'review' || entry.kind === 'tier-list') &&
+    typeof entry.id === 'string' &&
+    typeof entry.editToken === 'string' &&
+    typeof entry.title === 'string' &&
+    typeof entry.createdAt === 'string'
+  );
+};
+
+export function readOwnedCreations(): OwnedCreation[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(isOwnedCreation) : [];
+  } catch (error) {
+    console.error('Failed to read owned creations', error);
+    return [];
+  }
+}
+
+const writeOwnedCreations = (creations: OwnedCreation[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(creations));
+  } catch (error) {
+    // Private browsing or a full quota; the creation is saved but this browser cannot edit it later
+    console.error('Failed to store owned creations', error);
+  }
+};
+
+export function rememberOwnedCreation(creation: OwnedCreation) {
+  const others = readOwnedCreations().filter(
+    (entry) => !(entry.kind === creation.kind && entry.id === creation.id)
+  );
+  writeOwnedCreations([creation, ...others]);
+}
+
+export function forgetOwnedCreation(kind: OwnedCreationKind, id: string) {
+  writeOwnedCreations(readOwnedCreations().filter((entry) => !(entry.kind === kind && entry.id === id)));
+}
+
+export function getEditToken(kind: OwnedCreationKind, id: string): string | null {
+  return readOwnedCreations().find((entry) => entry.kind === kind && entry.id === id)?.editToken ?? null;
+}
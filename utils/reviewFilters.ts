@@ -0,0 +1,77 @@
+import type { ReviewAlbumFilters } from '@/types/review';
+
+export const defaultReviewFilters: ReviewAlbumFilters = {
+  excludeSingles: false,
+  excludeCompilations: false,
+  releaseYear: null,
+  minTracks: 1,
+};
+
+export type FilterableAlbum = {
+  albumType?: string | null;
+  release_date: string;
+  playlistTrackCount?: number;
+};
+
+export const getReleaseYear = (releaseDate: string | null | undefined) => {
+  const year = Number.parseInt((releaseDate ?? '').slice(0, 4), 10);
+  return Number.isFinite(year) ? year : null;
+};
+
+export function matchesReviewFilters(album: FilterableAlbum, filters: ReviewAlbumFilters) {
+  if (filters.excludeSingles && album.albumType === 'single') {
+    return false;
+  }
+  if (filters.excludeCompilations && album.albumType === 'compilation') {
+    return false;
+  }
+  if (filters.releaseYear != null && getReleaseYear(album.release_date) !== filters.releaseYear) {
+    return false;
+  }
+  return (album.playlistTrackCount ?? 1) >= filters.minTracks;
+}
+
+export function isDefaultReviewFilters(filters: ReviewAlbumFilters) {
+  return (
+    !filters.excludeSingles &&
+    !filters.excludeCompilations &&
+    filters.releaseYear == null &&
+    filters.minTracks <= 1
+  );
+}
+
+/** Validate filters coming from a request body or a stored JSON column. */
+export function normalizeReviewFilters(value: unknown): ReviewAlbumFilters | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+  const input = value as Record<string, unknown>;
+  const releaseYear = Number(input.releaseYear);
+  const minTracks = Number(input.minTracks);
+  const filters: ReviewAlbumFilters = {
+    excludeSingles: input.excludeSingles === true,
+    excludeCompilations: input.excludeCompilations === true,
+    releaseYear:
+      input.releaseYear != null && Number.isInteger(releaseYear) && releaseYear > 0 ? releaseYear : null,
+    minTracks: Number.isInteger(minTracks) && minTracks > 1 ? minTracks : 1,
+  };
+  return isDefaultReviewFilters(filters) ? null : filters;
+}
+
+export function describeReviewFilters(filters: ReviewAlbumFilters) {
+  const parts: string[] = [];
+  if (filters.excludeSingles && filters.excludeCompilations) {
+    parts.push('no singles or compilations');
+  } else if (filters.excludeSingles) {
+    parts.push('no singles');
+  } else if (filters.excludeCompilations) {
+    parts.push('no compilations');
+  }
+  if (filters.releaseYear != null) {
+    parts.push(`released in ${filters.releaseYear}`);
+  }
+  if (filters.minTracks > 1) {
+    parts.push(`at least ${filters.minTracks} tracks in the playlist`);
+  }
+  return parts.join(' • ');
+}
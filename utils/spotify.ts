@@ -1,5 +1,99 @@
+export type SpotifyLinkKind = 'playlist' | 'album' | 'artist' | 'track';
+
+export type SpotifyLink = {
+  kind: SpotifyLinkKind;
+  id: string;
+};
+
+export type ArtistAlbumGroup = 'album' | 'single' | 'compilation';
+
+/** Filters applied when an artist link is loaded as a discography source. */
+export type ArtistSourceOptions = {
+  groups: ArtistAlbumGroup[];
+  dedupe: boolean;
+};
+
+export const defaultArtistSourceOptions: ArtistSourceOptions = {
+  groups: ['album'],
+  dedupe: true,
+};
+
+const LINK_KINDS: SpotifyLinkKind[] = ['playlist', 'album', 'artist', 'track'];
+
+/** Spotify catalogue IDs are 22-character base62 strings. */
+export function isSpotifyId(value: string | null | undefined): boolean {
+  return typeof value === 'string' && /^[a-zA-Z0-9]{22}$/.test(value);
+}
+
+/**
+ * Parse an open.spotify.com link (including intl-xx and embed paths), a spotify: URI,
+ * or a bare ID (treated as a playlist). Returns null for anything else. Safe for client-side use.
+ */
+export function parseSpotifyLink(input: string): SpotifyLink | null {
+  const value = input.trim();
+  if (!value) {
+    return null;
+  }
+
+  if (isSpotifyId(value)) {
+    return { kind: 'playlist', id: value };
+  }
+
+  // spotify:album:<id> and the legacy spotify:user:<name>:playlist:<id> form
+  if (value.toLowerCase().startsWith('spotify:')) {
+    const parts = value.split(':');
+    for (let i = parts.length - 2; i >= 1; i -= 1) {
+      const kind = parts[i].toLowerCase() as SpotifyLinkKind;
+      if (LINK_KINDS.includes(kind) && isSpotifyId(parts[i + 1])) {
+        return { kind, id: parts[i + 1] };
+      }
+    }
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    return null;
+  }
+  if (!/(^|\.)spotify\.com$/i.test(url.hostname)) {
+    return null;
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean);
+  for (let i = segments.length - 2; i >= 0; i -= 1) {
+    const kind = segments[i].toLowerCase() as SpotifyLinkKind;
+    if (LINK_KINDS.includes(kind) && isSpotifyId(segments[i + 1])) {
+      return { kind, id: segments[i + 1] };
+    }
+  }
+  return null;
+}
+
+export function toSpotifyUri({ kind, id }: SpotifyLink): string {
+  return `spotify:${kind}:${id}`;
+}
+
+export function toSpotifyUrl({ kind, id }: SpotifyLink): string {
+  return `https://open.spotify.com/${kind}/${id}`;
+}
+
 /** Extract Spotify playlist ID from a URL or return null. Safe for client-side use. */
 export function extractPlaylistIdFromUrl(url: string): string | null {
-  const match = url.match(/playlist\/([a-zA-Z0-9]+)/);
-  return match ? match[1] : null;
+  const link = parseSpotifyLink(url);
+  return link?.kind === 'playlist' ? link.id : null;
+}
+
+/**
+ * Reviews and tier lists store their source as `playlistId`. Playlists keep the bare ID
+ * for backwards compatibility; every other kind is stored as a spotify: URI.
+ */
+export function toSourceId(link: SpotifyLink): string {
+  return link.kind === 'playlist' ? link.id : toSpotifyUri(link);
+}
+
+export function sourceIdToSpotifyUrl(sourceId: string): string | null {
+  const link = parseSpotifyLink(sourceId);
+  return link ? toSpotifyUrl(link) : null;
 }
@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { resolveReturnTo } from './spotifyAuth';
+
+const origin = 'https://myrating.space';
+
+describe('resolveReturnTo', () => {
+  it('keeps same-site paths with their query and hash', () => {
+    assert.equal(resolveReturnTo('/review-builder?tab=2#export', origin).href, `${origin}/review-builder?tab=2#export`);
+  });
+
+  it('falls back for paths that would leave the site', () => {
+    for (const value of ['//evil.com', '/\\evil.com', '/\tevil', 'https://evil.com', 'evil.com', '', null, undefined]) {
+      assert.equal(resolveReturnTo(value, origin).href, `${origin}/review-builder`, String(value));
+    }
+  });
+
+  it('keeps an encoded backslash on this site', () => {
+    const url = resolveReturnTo('/%5Cevil.com', origin);
+    assert.equal(url.origin, origin);
+    assert.equal(url.pathname, '/%5Cevil.com');
+  });
+});
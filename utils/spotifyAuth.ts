@@ -0,0 +1,148 @@
+import { createHash, randomBytes } from 'crypto';
+import axios from 'axios';
+import { spotifyRequest } from './spotifyClient';
+
+const SPOTIFY_AUTHORIZE_URL = 'https://accounts.spotify.com/authorize';
+const SPOTIFY_TOKEN_URL = 'https://accounts.spotify.com/api/token';
+const CLIENT_ID = process.env.SPOTIFY_CLIENT_ID;
+const API_TIMEOUT = 5000;
+
+export const SPOTIFY_PLAYLIST_WRITE_SCOPES = ['playlist-modify-private', 'playlist-modify-public'];
+export const SPOTIFY_USER_SCOPES = [
+  'playlist-read-private',
+  'playlist-read-collaborative',
+  ...SPOTIFY_PLAYLIST_WRITE_SCOPES,
+];
+
+export type SpotifyUserTokens = {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+  scope: string;
+};
+
+export type SpotifyUserProfile = {
+  id: string;
+  displayName: string;
+  image: string | null;
+};
+
+const base64Url = (buffer: Buffer) =>
+  buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/** Create a PKCE verifier/challenge pair and an opaque state value for one login attempt. */
+export function createPkceChallenge() {
+  const verifier = base64Url(randomBytes(64));
+  const challenge = base64Url(createHash('sha256').update(verifier).digest());
+  const state = base64Url(randomBytes(16));
+  return { verifier, challenge, state };
+}
+
+/** Callback URL registered with Spotify; defaults to this app's own callback route. */
+export function getRedirectUri(origin: string) {
+  return process.env.SPOTIFY_REDIRECT_URI || `${origin}/api/auth/spotify/callback`;
+}
+
+const DEFAULT_RETURN_TO = '/review-builder';
+// Browsers treat `\` like `/`, so `/\evil.com` would become the protocol-relative `//evil.com`
+const UNSAFE_RETURN_TO = /[\\\u0000-\u001f\u007f]/;
+
+/**
+ * Where to send the user after signing in. Only paths on `origin` are allowed, so the login flow
+ * can't be used as an open redirect; anything else falls back to the review builder.
+ */
+export function resolveReturnTo(value: string | null | undefined, origin: string): URL {
+  const fallback = new URL(DEFAULT_RETURN_TO, origin);
+  if (!value || !value.startsWith('/') || UNSAFE_RETURN_TO.test(value)) {
+    return fallback;
+  }
+  try {
+    const url = new URL(value, origin);
+    return url.origin === origin ? url : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function buildAuthorizeUrl({
+  challenge,
+  state,
+  redirectUri,
+}: {
+  challenge: string;
+  state: string;
+  redirectUri: string;
+}) {
+  const params = new URLSearchParams({
+    client_id: CLIENT_ID ?? '',
+    response_type: 'code',
+    redirect_uri: redirectUri,
+    code_challenge_method: 'S256',
+    code_challenge: challenge,
+    state,
+    scope: SPOTIFY_USER_SCOPES.join(' '),
+  });
+  return `${SPOTIFY_AUTHORIZE_URL}?${params.toString()}`;
+}
+
+async function requestUserTokens(body: Record<string, string>, previousRefreshToken?: string) {
+  const response = await axios.post(
+    SPOTIFY_TOKEN_URL,
+    new URLSearchParams({ client_id: CLIENT_ID ?? '', ...body }),
+    {
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      timeout: API_TIMEOUT,
+    }
+  );
+
+  const tokens: SpotifyUserTokens = {
+    accessToken: response.data.access_token,
+    // Spotify may omit the refresh token on refresh, in which case the old one stays valid
+    refreshToken: response.data.refresh_token ?? previousRefreshToken ?? '',
+    expiresAt: Date.now() + response.data.expires_in * 1000,
+    scope: response.data.scope ?? '',
+  };
+  return tokens;
+}
+
+export async function exchangeAuthorizationCode({
+  code,
+  verifier,
+  redirectUri,
+}: {
+  code: string;
+  verifier: string;
+  redirectUri: string;
+}): Promise<SpotifyUserTokens> {
+  try {
+    return await requestUserTokens({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: verifier,
+    });
+  } catch (error) {
+    console.error('Error exchanging Spotify authorization code:', error);
+    throw error;
+  }
+}
+
+export async function refreshUserTokens(refreshToken: string): Promise<SpotifyUserTokens> {
+  try {
+    return await requestUserTokens({ grant_type: 'refresh_token', refresh_token: refreshToken }, refreshToken);
+  } catch (error) {
+    console.error('Error refreshing Spotify user token:', error);
+    throw error;
+  }
+}
+
+export async function getCurrentUserProfile(accessToken: string): Promise<SpotifyUserProfile> {
+  const data = await spotifyRequest<any>({ path: '/me', accessToken });
+  return {
+    id: data.id,
+    displayName: data.display_name ?? data.id,
+    image: Array.isArray(data.images) && data.images.length > 0 ? data.images[0].url : null,
+  };
+}
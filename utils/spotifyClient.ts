@@ -0,0 +1,227 @@
+import axios, { type AxiosRequestConfig, type Method } from 'axios';
+
+export const SPOTIFY_BASE_URL = 'https://api.spotify.com/v1';
+const SPOTIFY_TOKEN_URL = 'https://accounts.spotify.com/api/token';
+const CLIENT_ID = process.env.SPOTIFY_CLIENT_ID;
+const CLIENT_SECRET = process.env.SPOTIFY_CLIENT_SECRET;
+
+// Default timeout for all Spotify API requests (5 seconds)
+const API_TIMEOUT = 5000;
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+// Longer Retry-After windows are surfaced as errors instead of stalling the request
+const MAX_RETRY_AFTER_MS = 30000;
+const MAX_CONCURRENT_REQUESTS = Number(process.env.SPOTIFY_MAX_CONCURRENCY) || 4;
+
+/**
+ * Which failures are retried: `transient` retries 429, 5xx and timeouts; `rate-limit` only retries a 429
+ * that carries Retry-After, which Spotify sends before doing any work; `none` never retries.
+ */
+export type SpotifyRetryPolicy = 'transient' | 'rate-limit' | 'none';
+
+export type SpotifyRequestConfig = {
+  method?: Method;
+  path: string;
+  params?: Record<string, unknown>;
+  data?: unknown;
+  /** A signed-in user's token. Without it the shared client-credentials token is used. */
+  accessToken?: string;
+  /**
+   * Defaults to `transient` for GET and HEAD. Other methods default to `rate-limit`, since a timeout
+   * or 5xx can arrive after Spotify already applied the write and a retry would apply it twice.
+   */
+  retry?: SpotifyRetryPolicy;
+};
+
+// Token yönetimi için basit bir cache sistemi
+let accessToken: string | null = null;
+let tokenExpiration: number | null = null;
+let tokenRequest: Promise<string> | null = null;
+
+let activeRequests = 0;
+const waitingRequests: (() => void)[] = [];
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+async function acquireSlot() {
+  if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    activeRequests += 1;
+    return;
+  }
+  // The releasing request hands its slot over, so the counter stays unchanged
+  await new Promise<void>((resolve) => waitingRequests.push(resolve));
+}
+
+function releaseSlot() {
+  const next = waitingRequests.shift();
+  if (next) {
+    next();
+  } else {
+    activeRequests -= 1;
+  }
+}
+
+const getStatus = (error: unknown): number | null =>
+  axios.isAxiosError(error) ? error.response?.status ?? null : null;
+
+const parseRetryAfter = (error: unknown): number | null => {
+  if (!axios.isAxiosError(error)) {
+    return null;
+  }
+  const header = error.response?.headers?.['retry-after'];
+  const seconds = Number(header);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+};
+
+const isRetryable = (error: unknown, policy: SpotifyRetryPolicy) => {
+  if (policy === 'none' || !axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  if (policy === 'rate-limit') {
+    return status === 429 && parseRetryAfter(error) != null;
+  }
+  // No response means a timeout or a dropped connection
+  return status == null || status === 429 || status >= 500;
+};
+
+const defaultRetryPolicy = (method: Method): SpotifyRetryPolicy =>
+  ['GET', 'HEAD'].includes(method.toUpperCase()) ? 'transient' : 'rate-limit';
+
+const backoffDelay = (attempt: number) => {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  // Full jitter keeps parallel chunks from retrying in lockstep
+  return Math.round(Math.random() * ceiling);
+};
+
+async function withRetries<T>(label: string, policy: SpotifyRetryPolicy, run: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await run();
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || !isRetryable(error, policy)) {
+        throw error;
+      }
+      const retryAfter = parseRetryAfter(error);
+      if (retryAfter != null && retryAfter > MAX_RETRY_AFTER_MS) {
+        throw error;
+      }
+      const delay = retryAfter ?? backoffDelay(attempt);
+      console.warn(
+        `Spotify ${label} failed with status ${getStatus(error) ?? 'network error'}; retrying in ${delay}ms (attempt ${attempt + 1}/${MAX_RETRIES}).`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+async function requestAccessToken(): Promise<string> {
+  // Requesting a client-credentials token has no side effects, so it is safe to retry like a read
+  const response = await withRetries('token request', 'transient', () =>
+    axios.post(
+      SPOTIFY_TOKEN_URL,
+      new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: CLIENT_ID!,
+        client_secret: CLIENT_SECRET!,
+      }),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        timeout: API_TIMEOUT,
+      }
+    )
+  );
+
+  accessToken = response.data.access_token as string;
+  tokenExpiration = Date.now() + response.data.expires_in * 1000;
+  return accessToken;
+}
+
+export async function getAccessToken(forceRefresh = false): Promise<string> {
+  // Eğer token varsa ve süresi dolmamışsa, mevcut tokeni kullan
+  if (!forceRefresh && accessToken && tokenExpiration && Date.now() < tokenExpiration) {
+    return accessToken;
+  }
+
+  if (!tokenRequest) {
+    tokenRequest = requestAccessToken()
+      .catch((error) => {
+        console.error('Error getting access token:', error);
+        throw error;
+      })
+      .finally(() => {
+        tokenRequest = null;
+      });
+  }
+
+  return tokenRequest;
+}
+
+function invalidateAccessToken(token: string) {
+  if (accessToken === token) {
+    accessToken = null;
+    tokenExpiration = null;
+  }
+}
+
+/**
+ * Sends a request to the Spotify Web API with the shared client-credentials token, or with
+ * `accessToken` when one is given. Failures are retried with backoff according to `retry` (see
+ * {@link SpotifyRequestConfig}), and an expired shared token is refreshed once on 401.
+ */
+export async function spotifyRequest<T = unknown>({
+  method = 'GET',
+  path,
+  params,
+  data,
+  accessToken: userAccessToken,
+  retry = defaultRetryPolicy(method),
+}: SpotifyRequestConfig): Promise<T> {
+  const url = path.startsWith('http') ? path : `${SPOTIFY_BASE_URL}${path}`;
+
+  const send = async (token: string) => {
+    const config: AxiosRequestConfig = {
+      method,
+      url,
+      params,
+      data,
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+      timeout: API_TIMEOUT,
+    };
+
+    // Each attempt takes its own slot, so backoff sleeps do not hold up other Spotify calls
+    return withRetries(`${method} ${path}`, retry, async () => {
+      await acquireSlot();
+      try {
+        return await axios.request<T>(config);
+      } finally {
+        releaseSlot();
+      }
+    });
+  };
+
+  // User tokens are refreshed by the session layer, so a 401 here is surfaced as-is
+  if (userAccessToken) {
+    const response = await send(userAccessToken);
+    return response.data;
+  }
+
+  const token = await getAccessToken();
+  try {
+    const response = await send(token);
+    return response.data;
+  } catch (error) {
+    if (getStatus(error) !== 401) {
+      throw error;
+    }
+    invalidateAccessToken(token);
+    const refreshedToken = await getAccessToken(true);
+    const response = await send(refreshedToken);
+    return response.data;
+  }
+}
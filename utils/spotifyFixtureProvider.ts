@@ -0,0 +1,262 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { normalizeSearchQuery } from '@/lib/spotifyCache';
+import type {
+  AlbumTracksOptions,
+  ArtistAlbumsOptions,
+  ArtistAlbumsResult,
+  PlaylistDetails,
+  PlaylistRequestOptions,
+  PlaylistTracksResult,
+  SpotifyAlbumDetail,
+  SpotifyAlbumSearchResult,
+  SpotifyAlbumTracksPage,
+  SpotifyProvider,
+  SpotifyUserPlaylist,
+} from '@/types/spotify';
+
+type FixtureTrack = {
+  id: string;
+  name: string;
+  duration_ms?: number;
+  explicit?: boolean;
+  artists?: { name: string }[];
+};
+
+type FixtureAlbum = SpotifyAlbumDetail & {
+  tracks?: FixtureTrack[];
+};
+
+type FixturePlaylist = {
+  id: string;
+  name: string;
+  owner: string;
+  image: string | null;
+  albumIds: string[];
+};
+
+type FixtureArtist = {
+  id: string;
+  name: string;
+  image: string | null;
+  albumIds: string[];
+};
+
+type Fixtures = {
+  albums: Map<string, FixtureAlbum>;
+  playlists: Map<string, FixturePlaylist>;
+  artists: Map<string, FixtureArtist>;
+};
+
+const FIXTURES_DIR = process.env.SPOTIFY_FIXTURES_DIR || path.join(process.cwd(), 'data', 'spotify-fixtures');
+
+let fixturesPromise: Promise<Fixtures> | null = null;
+
+async function readFixtureFile<T>(name: string): Promise<T[]> {
+  try {
+    const raw = await fs.readFile(path.join(FIXTURES_DIR, name), 'utf8');
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+      return [];
+    }
+    console.error(`Error reading Spotify fixture ${name}:`, error);
+    throw error;
+  }
+}
+
+function loadFixtures(): Promise<Fixtures> {
+  if (!fixturesPromise) {
+    fixturesPromise = (async () => {
+      const [albums, playlists, artists] = await Promise.all([
+        readFixtureFile<FixtureAlbum>('albums.json'),
+        readFixtureFile<FixturePlaylist>('playlists.json'),
+        readFixtureFile<FixtureArtist>('artists.json'),
+      ]);
+      return {
+        albums: new Map(albums.map((album) => [album.id, album])),
+        playlists: new Map(playlists.map((playlist) => [playlist.id, playlist])),
+        artists: new Map(artists.map((artist) => [artist.id, artist])),
+      };
+    })().catch((error) => {
+      fixturesPromise = null;
+      throw error;
+    });
+  }
+  return fixturesPromise;
+}
+
+const toAlbumDetail = ({ tracks: _tracks, ...album }: FixtureAlbum): SpotifyAlbumDetail => album;
+
+const toPlaylistItem = (album: FixtureAlbum) => ({
+  track: {
+    name: album.tracks?.[0]?.name ?? album.name,
+    duration_ms: album.tracks?.[0]?.duration_ms ?? 0,
+    artists: album.artists ?? [],
+    album: {
+      id: album.id,
+      name: album.name,
+      images: album.images,
+      release_date: album.release_date,
+      label: album.label,
+      artists: album.artists ?? [],
+      type: album.album_type,
+      album_type: album.album_type,
+      external_urls: album.external_urls,
+    },
+  },
+});
+
+async function requirePlaylist(playlistId: string): Promise<FixturePlaylist> {
+  const { playlists } = await loadFixtures();
+  const playlist = playlists.get(playlistId);
+  if (!playlist) {
+    throw new Error(`No fixture playlist with id ${playlistId}`);
+  }
+  return playlist;
+}
+
+async function getPlaylistTracks(
+  playlistId: string,
+  { maxTracks }: PlaylistRequestOptions = {}
+): Promise<PlaylistTracksResult> {
+  const [playlist, { albums }] = await Promise.all([requirePlaylist(playlistId), loadFixtures()]);
+  const allItems = playlist.albumIds
+    .map((id) => albums.get(id))
+    .filter((album): album is FixtureAlbum => Boolean(album))
+    .map(toPlaylistItem);
+  const items = typeof maxTracks === 'number' ? allItems.slice(0, maxTracks) : allItems;
+  return {
+    items,
+    total: allItems.length,
+    truncated: items.length < allItems.length,
+  };
+}
+
+async function getPlaylistDetails(playlistId: string): Promise<PlaylistDetails> {
+  const { name, owner, image } = await requirePlaylist(playlistId);
+  return { name, owner, image };
+}
+
+/** Every fixture playlist is treated as belonging to the signed-in user. */
+async function getUserPlaylists(): Promise<SpotifyUserPlaylist[]> {
+  const { playlists } = await loadFixtures();
+  return Array.from(playlists.values()).map((playlist) => ({
+    id: playlist.id,
+    name: playlist.name,
+    owner: playlist.owner,
+    image: playlist.image,
+    trackCount: playlist.albumIds.length,
+    collaborative: false,
+    public: false,
+  }));
+}
+
+async function getAlbumsDetails(ids: string[]): Promise<Record<string, SpotifyAlbumDetail>> {
+  const { albums } = await loadFixtures();
+  const result: Record<string, SpotifyAlbumDetail> = {};
+  ids.forEach((id) => {
+    const album = albums.get(id);
+    if (album) {
+      result[id] = toAlbumDetail(album);
+    }
+  });
+  return result;
+}
+
+async function getAlbumTracks(
+  albumId: string,
+  { limit = 50, offset = 0 }: AlbumTracksOptions = {}
+): Promise<SpotifyAlbumTracksPage> {
+  const { albums } = await loadFixtures();
+  const tracks = albums.get(albumId)?.tracks ?? [];
+  const items = tracks.slice(offset, offset + limit).map((track, index) => ({
+    id: track.id,
+    name: track.name,
+    trackNumber: offset + index + 1,
+    discNumber: 1,
+    durationMs: track.duration_ms ?? 0,
+    explicit: Boolean(track.explicit),
+    artists: (track.artists ?? []).map((artist) => artist.name),
+    spotifyUrl: null,
+  }));
+  return {
+    items,
+    total: tracks.length,
+    limit,
+    offset,
+    hasMore: offset + items.length < tracks.length,
+  };
+}
+
+async function getTrackAlbumId(trackId: string): Promise<string | null> {
+  const { albums } = await loadFixtures();
+  for (const album of Array.from(albums.values())) {
+    if (album.tracks?.some((track) => track.id === trackId)) {
+      return album.id;
+    }
+  }
+  return null;
+}
+
+async function searchAlbums(query: string, limit = 12): Promise<SpotifyAlbumSearchResult[]> {
+  const normalized = normalizeSearchQuery(query);
+  if (!normalized) {
+    return [];
+  }
+
+  const { albums } = await loadFixtures();
+  return Array.from(albums.values())
+    .filter((album) =>
+      normalizeSearchQuery(
+        [album.name, ...(album.artists ?? []).map((artist) => artist.name)].join(' ')
+      ).includes(normalized)
+    )
+    .slice(0, limit)
+    .map((album) => ({
+      id: album.id,
+      name: album.name,
+      artists: (album.artists ?? []).map((artist) => artist.name),
+      image: album.images[0]?.url ?? null,
+      releaseDate: album.release_date,
+      spotifyUrl: album.external_urls?.spotify ?? null,
+      totalTracks: album.tracks?.length ?? null,
+    }));
+}
+
+async function getArtistAlbums(
+  artistId: string,
+  { groups = ['album'] }: ArtistAlbumsOptions = {}
+): Promise<ArtistAlbumsResult> {
+  const { artists, albums } = await loadFixtures();
+  const artist = artists.get(artistId);
+  if (!artist) {
+    throw new Error(`No fixture artist with id ${artistId}`);
+  }
+
+  const artistAlbums = artist.albumIds
+    .map((id) => albums.get(id))
+    .filter((album): album is FixtureAlbum => Boolean(album))
+    .filter((album) => groups.includes((album.album_type ?? 'album') as (typeof groups)[number]))
+    .map(toAlbumDetail);
+
+  return {
+    artist: { name: artist.name, image: artist.image },
+    albums: artistAlbums,
+    total: artistAlbums.length,
+    truncated: false,
+  };
+}
+
+/** Serves canned playlists and albums from JSON so the app can run without Spotify credentials. */
+export const fixtureSpotifyProvider: SpotifyProvider = {
+  getPlaylistTracks,
+  getPlaylistDetails,
+  getUserPlaylists,
+  getAlbumsDetails,
+  getAlbumTracks,
+  getTrackAlbumId,
+  searchAlbums,
+  getArtistAlbums,
+};
@@ -0,0 +1,23 @@
+/** Posted by the popup's landing page (app/spotify-login/complete) back to the window that opened it. */
+export const SPOTIFY_LOGIN_MESSAGE = 'spotify-login-complete';
+
+export type SpotifyLoginMessage = {
+  type: typeof SPOTIFY_LOGIN_MESSAGE;
+  ok: boolean;
+};
+
+export const isSpotifyLoginMessage = (data: unknown): data is SpotifyLoginMessage =>
+  typeof data === 'object' && data !== null && (data as SpotifyLoginMessage).type === SPOTIFY_LOGIN_MESSAGE;
+
+/**
+ * Start Spotify sign-in in a popup so the page that asked for it keeps its unsaved state.
+ * Returns false when the browser blocked the popup.
+ */
+export function openSpotifyLoginPopup() {
+  const popup = window.open(
+    `/api/auth/spotify/login?returnTo=${encodeURIComponent('/spotify-login/complete')}`,
+    'spotify-login',
+    'popup,width=480,height=720'
+  );
+  return Boolean(popup);
+}
@@ -0,0 +1,134 @@
+import { spotifyRequest } from './spotifyClient';
+import { getAlbumTracks } from './spotifyApi';
+
+// Spotify accepts at most 100 URIs per add-items call and 50 IDs per several-tracks call
+const ADD_TRACKS_BATCH_SIZE = 100;
+const TRACK_LOOKUP_BATCH_SIZE = 50;
+const MAX_DESCRIPTION_LENGTH = 300;
+const MAX_NAME_LENGTH = 100;
+
+export type CreatedPlaylist = {
+  id: string;
+  url: string | null;
+};
+
+type CreatePlaylistResponse = {
+  id: string;
+  external_urls?: { spotify?: string };
+};
+
+// Unknown ids come back as null entries
+type SeveralTracksResponse = {
+  tracks: ({ id: string | null; popularity?: number } | null)[];
+};
+
+const chunk = <T>(values: T[], size: number) => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/** Spotify rejects descriptions with line breaks and silently drops anything past 300 characters. */
+const sanitizeDescription = (value: string) => {
+  const singleLine = value.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_DESCRIPTION_LENGTH
+    ? `${singleLine.slice(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd()}…`
+    : singleLine;
+};
+
+export async function createUserPlaylist(
+  accessToken: string,
+  userId: string,
+  { name, description, isPublic }: { name: string; description: string; isPublic: boolean }
+): Promise<CreatedPlaylist> {
+  try {
+    // A retry after a timeout could create a second playlist, so only rate limits are retried
+    const data = await spotifyRequest<CreatePlaylistResponse>({
+      method: 'POST',
+      retry: 'rate-limit',
+      path: `/users/${encodeURIComponent(userId)}/playlists`,
+      data: {
+        name: name.trim().slice(0, MAX_NAME_LENGTH) || 'Ranked review',
+        description: sanitizeDescription(description),
+        public: isPublic,
+      },
+      accessToken,
+    });
+    return {
+      id: data.id,
+      url: data.external_urls?.spotify ?? null,
+    };
+  } catch (error) {
+    console.error('Error creating Spotify playlist:', error);
+    throw error;
+  }
+}
+
+async function getTrackPopularity(accessToken: string, trackIds: string[]) {
+  const popularity: Record<string, number> = {};
+  for (const ids of chunk(trackIds, TRACK_LOOKUP_BATCH_SIZE)) {
+    const data = await spotifyRequest<SeveralTracksResponse>({
+      path: '/tracks',
+      params: { ids: ids.join(',') },
+      accessToken,
+    });
+    (Array.isArray(data?.tracks) ? data.tracks : []).forEach((track) => {
+      if (track && typeof track.id === 'string') {
+        popularity[track.id] = typeof track.popularity === 'number' ? track.popularity : 0;
+      }
+    });
+  }
+  return popularity;
+}
+
+/**
+ * Pick the track URIs to add for one album: every track, or the `limit` most popular ones.
+ * Either way the tracks keep their album order.
+ */
+export async function selectAlbumTrackUris(
+  accessToken: string,
+  albumId: string,
+  limit: number | null
+): Promise<string[]> {
+  const trackIds: string[] = [];
+  let offset = 0;
+  let hasMore = true;
+  while (hasMore) {
+    const page = await getAlbumTracks(albumId, { offset });
+    trackIds.push(...page.items.map((track) => track.id));
+    offset += page.items.length;
+    hasMore = page.hasMore && page.items.length > 0;
+  }
+
+  let selected = trackIds;
+  if (limit != null && limit < trackIds.length) {
+    const popularity = await getTrackPopularity(accessToken, trackIds);
+    const picked = new Set(
+      [...trackIds].sort((a, b) => (popularity[b] ?? 0) - (popularity[a] ?? 0)).slice(0, limit)
+    );
+    selected = trackIds.filter((id) => picked.has(id));
+  }
+
+  return selected.map((id) => `spotify:track:${id}`);
+}
+
+/** Append tracks in order; batches run one after another so the playlist order is preserved. */
+export async function appendPlaylistTracks(accessToken: string, playlistId: string, uris: string[]) {
+  try {
+    for (const batch of chunk(uris, ADD_TRACKS_BATCH_SIZE)) {
+      // Same as creation: a retried append could add the batch twice
+      await spotifyRequest({
+        method: 'POST',
+        retry: 'rate-limit',
+        path: `/playlists/${playlistId}/tracks`,
+        data: { uris: batch },
+        accessToken,
+      });
+    }
+  } catch (error) {
+    console.error('Error adding tracks to Spotify playlist:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,393 @@
+import { spotifyRequest } from './spotifyClient';
+import { getCached, normalizeSearchQuery, setCached } from '@/lib/spotifyCache';
+import type {
+  AlbumTracksOptions,
+  ArtistAlbumsOptions,
+  ArtistAlbumsResult,
+  PlaylistDetails,
+  PlaylistRequestOptions,
+  PlaylistTracksResult,
+  SpotifyAlbumDetail,
+  SpotifyAlbumSearchResult,
+  SpotifyAlbumTrack,
+  SpotifyAlbumTracksPage,
+  SpotifyProvider,
+  SpotifyUserPlaylist,
+} from '@/types/spotify';
+
+// Spotify caps playlist track pages at 100 items
+const PLAYLIST_PAGE_SIZE = 100;
+const DEFAULT_MAX_PLAYLIST_TRACKS = Number(process.env.SPOTIFY_MAX_PLAYLIST_TRACKS) || 1000;
+
+async function getPlaylistTracks(
+  playlistId: string,
+  { maxTracks = DEFAULT_MAX_PLAYLIST_TRACKS, accessToken }: PlaylistRequestOptions = {}
+): Promise<PlaylistTracksResult> {
+  try {
+    const items: unknown[] = [];
+    let total = 0;
+    let offset = 0;
+    let hasNext = true;
+
+    while (hasNext && items.length < maxTracks) {
+      const page = await spotifyRequest<any>({
+        path: `/playlists/${playlistId}/tracks`,
+        params: {
+          fields: 'next,total,items(track(name,duration_ms,artists,album(id,name,images,release_date,label,artists,type,album_type,total_tracks,external_urls)))',
+          limit: Math.min(PLAYLIST_PAGE_SIZE, maxTracks - items.length),
+          offset,
+        },
+        accessToken,
+      });
+
+      const pageItems = Array.isArray(page?.items) ? page.items : [];
+      items.push(...pageItems);
+      total = typeof page?.total === 'number' ? page.total : items.length;
+      offset += pageItems.length;
+      hasNext = Boolean(page?.next) && pageItems.length > 0;
+    }
+
+    return {
+      items,
+      total,
+      truncated: items.length < total,
+    };
+  } catch (error) {
+    console.error('Error fetching playlist tracks:', error);
+    throw error;
+  }
+}
+
+async function getAlbumsDetails(ids: string[]): Promise<Record<string, SpotifyAlbumDetail>> {
+  const uniqueIds = Array.from(new Set(ids.filter((id) => typeof id === 'string' && id.trim().length > 0)));
+  if (uniqueIds.length === 0) {
+    return {};
+  }
+
+  const cached: Record<string, SpotifyAlbumDetail> = {};
+  const missingIds: string[] = [];
+  await Promise.all(
+    uniqueIds.map(async (id) => {
+      const hit = await getCached<SpotifyAlbumDetail>('album', id);
+      if (hit) {
+        cached[id] = hit;
+      } else {
+        missingIds.push(id);
+      }
+    })
+  );
+
+  const chunkSize = 20;
+  const chunks: string[][] = [];
+
+  for (let i = 0; i < missingIds.length; i += chunkSize) {
+    chunks.push(missingIds.slice(i, i + chunkSize));
+  }
+
+  // Chunks fan out in parallel; the shared client caps how many hit Spotify at once
+  const results = await Promise.all(
+    chunks.map(async (chunk) => {
+      const chunkResult: Record<string, SpotifyAlbumDetail> = {};
+      try {
+        const data = await spotifyRequest<any>({
+          path: '/albums',
+          params: {
+            ids: chunk.join(','),
+          },
+        });
+
+        const albums = Array.isArray(data?.albums) ? data.albums : [];
+        albums.forEach((album: any) => {
+          if (album && typeof album.id === 'string') {
+            chunkResult[album.id] = {
+              id: album.id,
+              name: album.name ?? '',
+              artists: Array.isArray(album.artists)
+                ? album.artists.map((artist: any) => ({ name: artist?.name ?? '' }))
+                : [],
+              album_type: album.album_type,
+              label: album.label ?? null,
+              images: Array.isArray(album.images) ? album.images : [],
+              release_date: album.release_date ?? '',
+              external_urls: album.external_urls,
+            };
+          }
+        });
+        await Promise.all(
+          Object.values(chunkResult).map((detail) => setCached('album', detail.id, detail))
+        );
+      } catch (error) {
+        console.error('Error fetching album details:', error);
+        throw error;
+      }
+      return chunkResult;
+    })
+  );
+
+  return Object.assign(cached, ...results);
+}
+
+async function getAlbumTracks(
+  albumId: string,
+  { limit = 50, offset = 0 }: AlbumTracksOptions = {}
+): Promise<SpotifyAlbumTracksPage> {
+  const cacheKey = `${albumId}:${offset}:${limit}`;
+  const cached = await getCached<SpotifyAlbumTracksPage>('tracks', cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const data = await spotifyRequest<any>({
+      path: `/albums/${albumId}/tracks`,
+      params: {
+        limit,
+        offset,
+      },
+    });
+
+    const tracks = Array.isArray(data?.items) ? data.items : [];
+    const items: SpotifyAlbumTrack[] = tracks
+      .filter((track: any) => track && typeof track.id === 'string')
+      .map((track: any) => ({
+        id: track.id,
+        name: track.name ?? 'Unknown track',
+        trackNumber: typeof track.track_number === 'number' ? track.track_number : 0,
+        discNumber: typeof track.disc_number === 'number' ? track.disc_number : 1,
+        durationMs: typeof track.duration_ms === 'number' ? track.duration_ms : 0,
+        explicit: Boolean(track.explicit),
+        artists: Array.isArray(track.artists) ? track.artists.map((artist: any) => artist?.name).filter(Boolean) : [],
+        spotifyUrl: track.external_urls?.spotify ?? null,
+      }));
+    const total = typeof data?.total === 'number' ? data.total : offset + items.length;
+
+    const page: SpotifyAlbumTracksPage = {
+      items,
+      total,
+      limit,
+      offset,
+      hasMore: offset + items.length < total,
+    };
+    await setCached('tracks', cacheKey, page);
+    return page;
+  } catch (error) {
+    console.error('Error fetching album tracks:', error);
+    throw error;
+  }
+}
+
+/** Resolve a track to the ID of the album it belongs to. */
+async function getTrackAlbumId(trackId: string): Promise<string | null> {
+  try {
+    const data = await spotifyRequest<any>({
+      path: `/tracks/${trackId}`,
+      params: {
+        fields: 'album(id)',
+      },
+    });
+    return typeof data?.album?.id === 'string' ? data.album.id : null;
+  } catch (error) {
+    console.error('Error fetching track:', error);
+    throw error;
+  }
+}
+
+async function searchAlbums(query: string, limit = 12): Promise<SpotifyAlbumSearchResult[]> {
+  if (!query.trim()) {
+    return [];
+  }
+
+  const cacheKey = `${limit}:${normalizeSearchQuery(query)}`;
+  const cached = await getCached<SpotifyAlbumSearchResult[]>('search', cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const data = await spotifyRequest<any>({
+      path: '/search',
+      params: {
+        q: query,
+        type: 'album',
+        limit,
+      },
+    });
+
+    const albums = Array.isArray(data?.albums?.items) ? data.albums.items : [];
+
+    const results: SpotifyAlbumSearchResult[] = albums.map((album: any) => ({
+      id: album.id ?? crypto.randomUUID(),
+      name: album.name ?? 'Unknown album',
+      artists: Array.isArray(album.artists) ? album.artists.map((artist: any) => artist?.name).filter(Boolean) : [],
+      image:
+        Array.isArray(album.images) && album.images.length > 0
+          ? album.images.sort((a: any, b: any) => (b?.height ?? 0) - (a?.height ?? 0))[0]?.url ?? null
+          : null,
+      releaseDate: album.release_date ?? '',
+      spotifyUrl: album.external_urls?.spotify ?? null,
+      totalTracks: typeof album.total_tracks === 'number' ? album.total_tracks : null,
+    }));
+
+    await setCached('search', cacheKey, results);
+    return results;
+  } catch (error) {
+    console.error('Error searching albums:', error);
+    throw error;
+  }
+}
+
+async function getPlaylistDetails(
+  playlistId: string,
+  { accessToken }: PlaylistRequestOptions = {}
+): Promise<PlaylistDetails> {
+  try {
+    const data = await spotifyRequest<any>({ path: `/playlists/${playlistId}`, accessToken });
+    return {
+      name: data.name,
+      owner: data.owner.display_name,
+      image: Array.isArray(data.images) && data.images.length > 0
+        ? data.images[0].url
+        : null,
+    };
+  } catch (error) {
+    console.error('Error fetching playlist details:', error);
+    throw error;
+  }
+}
+
+// Spotify caps the current user's playlist pages at 50 items
+const USER_PLAYLISTS_PAGE_SIZE = 50;
+const MAX_USER_PLAYLISTS = 500;
+
+async function getUserPlaylists(accessToken: string): Promise<SpotifyUserPlaylist[]> {
+  try {
+    const playlists: SpotifyUserPlaylist[] = [];
+    let offset = 0;
+    let hasNext = true;
+
+    while (hasNext && playlists.length < MAX_USER_PLAYLISTS) {
+      const page = await spotifyRequest<any>({
+        path: '/me/playlists',
+        params: {
+          limit: USER_PLAYLISTS_PAGE_SIZE,
+          offset,
+        },
+        accessToken,
+      });
+
+      const pageItems = Array.isArray(page?.items) ? page.items : [];
+      pageItems
+        .filter((playlist: any) => playlist && typeof playlist.id === 'string')
+        .forEach((playlist: any) => {
+          playlists.push({
+            id: playlist.id,
+            name: playlist.name ?? 'Untitled playlist',
+            owner: playlist.owner?.display_name ?? playlist.owner?.id ?? '',
+            image: Array.isArray(playlist.images) && playlist.images.length > 0 ? playlist.images[0].url : null,
+            trackCount: typeof playlist.tracks?.total === 'number' ? playlist.tracks.total : 0,
+            collaborative: Boolean(playlist.collaborative),
+            public: typeof playlist.public === 'boolean' ? playlist.public : null,
+          });
+        });
+      offset += pageItems.length;
+      hasNext = Boolean(page?.next) && pageItems.length > 0;
+    }
+
+    return playlists;
+  } catch (error) {
+    console.error('Error fetching user playlists:', error);
+    throw error;
+  }
+}
+
+// Spotify caps artist album pages at 50 items
+const ARTIST_ALBUMS_PAGE_SIZE = 50;
+const MAX_ARTIST_ALBUMS = 300;
+
+/** Regional re-releases share a title, type and track count but carry different IDs. */
+const artistAlbumDedupeKey = (album: any) =>
+  [
+    String(album?.name ?? '').trim().toLowerCase(),
+    album?.album_type ?? '',
+    album?.total_tracks ?? '',
+  ].join('|');
+
+async function getArtistAlbums(
+  artistId: string,
+  { groups = ['album'], dedupe = true }: ArtistAlbumsOptions = {}
+): Promise<ArtistAlbumsResult> {
+  try {
+    const artist = await spotifyRequest<any>({ path: `/artists/${artistId}` });
+    const rawAlbums: any[] = [];
+    let total = 0;
+    let offset = 0;
+    let hasNext = true;
+
+    while (hasNext && rawAlbums.length < MAX_ARTIST_ALBUMS) {
+      const page = await spotifyRequest<any>({
+        path: `/artists/${artistId}/albums`,
+        params: {
+          include_groups: groups.join(','),
+          limit: ARTIST_ALBUMS_PAGE_SIZE,
+          offset,
+        },
+      });
+
+      const pageItems = Array.isArray(page?.items) ? page.items : [];
+      rawAlbums.push(...pageItems);
+      total = typeof page?.total === 'number' ? page.total : rawAlbums.length;
+      offset += pageItems.length;
+      hasNext = Boolean(page?.next) && pageItems.length > 0;
+    }
+
+    const seen = new Set<string>();
+    const albums: SpotifyAlbumDetail[] = [];
+    for (const album of rawAlbums) {
+      if (!album || typeof album.id !== 'string') {
+        continue;
+      }
+      const key = dedupe ? artistAlbumDedupeKey(album) : album.id;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      albums.push({
+        id: album.id,
+        name: album.name ?? '',
+        artists: Array.isArray(album.artists)
+          ? album.artists.map((entry: any) => ({ name: entry?.name ?? '' }))
+          : [],
+        album_type: album.album_type,
+        label: null,
+        images: Array.isArray(album.images) ? album.images : [],
+        release_date: album.release_date ?? '',
+        external_urls: album.external_urls,
+      });
+    }
+
+    return {
+      artist: {
+        name: artist?.name ?? 'Unknown Artist',
+        image: Array.isArray(artist?.images) && artist.images.length > 0 ? artist.images[0].url : null,
+      },
+      albums,
+      total,
+      truncated: rawAlbums.length < total,
+    };
+  } catch (error) {
+    console.error('Error fetching artist albums:', error);
+    throw error;
+  }
+}
+
+/** Talks to the live Spotify Web API using the client-credentials flow. */
+export const webSpotifyProvider: SpotifyProvider = {
+  getPlaylistTracks,
+  getPlaylistDetails,
+  getUserPlaylists,
+  getAlbumsDetails,
+  getAlbumTracks,
+  getTrackAlbumId,
+  searchAlbums,
+  getArtistAlbums,
+};